@@ -0,0 +1,170 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { attribute, childElements, parseXml, XmlElement } from "./xml";
+
+export const PACKAGES_PROPS_FILE_NAME = "Directory.Packages.props";
+export const BUILD_PROPS_FILE_NAME = "Directory.Build.props";
+
+export interface CentralPackageVersion {
+  packageId: string;
+  version: string;
+  /** The props file declaring the `<PackageVersion>`. */
+  file: string;
+}
+
+export interface InheritedProperty {
+  name: string;
+  value: string;
+  file: string;
+}
+
+export interface DirectoryProps {
+  /** Central versions keyed by lower-case package id. */
+  packageVersions: Map<string, CentralPackageVersion>;
+  /** Properties from `Directory.Build.props`, keyed by lower-case name. */
+  properties: Map<string, InheritedProperty>;
+}
+
+/** Nearest file with the given name in the directory or one of its parents, the way MSBuild looks it up. */
+export function findFileAbove(directory: string, fileName: string): string | undefined {
+  let current = path.resolve(directory);
+  while (true) {
+    const candidate = path.join(current, fileName);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Reads the nearest `Directory.Build.props` and `Directory.Packages.props`
+ * that `dotnet run` imports for a file-based app in `directory`. Only the
+ * nearest file of each kind is read; imports of parent files and
+ * conditional groups are not evaluated.
+ */
+export function readDirectoryProps(directory: string): DirectoryProps {
+  const packageVersions = new Map<string, CentralPackageVersion>();
+  const properties = new Map<string, InheritedProperty>();
+  let managesVersionsCentrally = false;
+
+  const buildProps = findFileAbove(directory, BUILD_PROPS_FILE_NAME);
+  const packagesProps = findFileAbove(directory, PACKAGES_PROPS_FILE_NAME);
+
+  // Directory.Packages.props is imported after Directory.Build.props and can
+  // refer to its properties, but only Directory.Build.props ones are inherited
+  for (const file of [buildProps, packagesProps]) {
+    const project = file && readProject(file);
+    if (!file || !project) {
+      continue;
+    }
+    const scope = file === buildProps ? properties : new Map(properties);
+
+    for (const group of unconditional(childElements(project, "PropertyGroup"))) {
+      for (const property of unconditional(group.children)) {
+        // Later values can refer to earlier ones, e.g. `$(AspNetCoreVersion)`
+        scope.set(property.name.toLowerCase(), {
+          name: property.name,
+          value: expandProperties(property.text.trim(), scope),
+          file
+        });
+      }
+    }
+    managesVersionsCentrally = scope.get("managepackageversionscentrally")?.value.toLowerCase() === "true";
+
+    // Pins from Directory.Packages.props win over ones in Directory.Build.props
+    for (const group of unconditional(childElements(project, "ItemGroup"))) {
+      for (const item of unconditional(childElements(group, "PackageVersion"))) {
+        const packageId = attribute(item, "Include") ?? attribute(item, "Update");
+        const version = attribute(item, "Version") ?? childElements(item, "Version")[0]?.text.trim();
+        if (packageId && version) {
+          packageVersions.set(packageId.toLowerCase(), {
+            packageId,
+            version: expandProperties(version, scope),
+            file
+          });
+        }
+      }
+    }
+  }
+
+  // Pins only apply with central package management switched on
+  return { packageVersions: managesVersionsCentrally ? packageVersions : new Map(), properties };
+}
+
+function readProject(file: string): XmlElement | undefined {
+  try {
+    return parseXml(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    console.error(`Error reading ${file}:`, error);
+    return undefined;
+  }
+}
+
+function unconditional(elements: XmlElement[]): XmlElement[] {
+  return elements.filter(element => attribute(element, "Condition") === undefined);
+}
+
+function expandProperties(value: string, properties: Map<string, InheritedProperty>): string {
+  return value.replace(/\$\(([\w.-]+)\)/g, (reference, name: string) =>
+    properties.get(name.toLowerCase())?.value ?? reference
+  );
+}
+
+/**
+ * Caches the directory props per folder and signals when any of them
+ * change, so central versions and inherited properties stay current.
+ */
+export class CentralPackageService implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  private propsByDirectory = new Map<string, DirectoryProps>();
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      `**/{${PACKAGES_PROPS_FILE_NAME},${BUILD_PROPS_FILE_NAME}}`
+    );
+    const reset = () => {
+      this.propsByDirectory.clear();
+      this.changeEmitter.fire();
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidChange(reset),
+      watcher.onDidCreate(reset),
+      watcher.onDidDelete(reset)
+    );
+  }
+
+  getDirectoryProps(uri: vscode.Uri): DirectoryProps | undefined {
+    if (uri.scheme !== "file") {
+      return undefined;
+    }
+    const directory = path.dirname(uri.fsPath);
+    let props = this.propsByDirectory.get(directory);
+    if (!props) {
+      props = readDirectoryProps(directory);
+      this.propsByDirectory.set(directory, props);
+    }
+    return props;
+  }
+
+  getCentralVersion(uri: vscode.Uri, packageId: string): CentralPackageVersion | undefined {
+    return this.getDirectoryProps(uri)?.packageVersions.get(packageId.toLowerCase());
+  }
+
+  getInheritedProperty(uri: vscode.Uri, name: string): InheritedProperty | undefined {
+    return this.getDirectoryProps(uri)?.properties.get(name.toLowerCase());
+  }
+
+  dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,390 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { CentralPackageService } from "./centralPackages";
+import { DirectiveMetadataRegistry } from "./directiveMetadata";
+import { Directive, parseDirectives } from "./directiveParser";
+import { PackageDependency, RegistrationCatalogEntry } from "./feedClient";
+import { PackageSourceService } from "./packageSources";
+import { isCancellation } from "./requestScheduler";
+import { parseTargetFramework, selectDependencyGroup } from "./targetFrameworks";
+import {
+  compareVersions,
+  findLatestVersion,
+  isFloatingOrRange,
+  parseVersionRange,
+  resolveVersion,
+  satisfiesRange
+} from "./versions";
+
+export const DEPENDENCY_VIEW_ID = "csharpPackageAutocomplete.dependencies";
+
+// Keeps a runaway graph from issuing hundreds of requests
+const MAX_PACKAGES = 250;
+// Delay after the last keystroke before resolving again
+const REFRESH_DELAY = 1000;
+
+export interface DependencyRequest {
+  /** Lower-case id of the requesting package. */
+  from: string;
+  range: string;
+}
+
+export interface ResolvedPackage {
+  id: string;
+  version: string;
+  /** Line of the `#:package` directive for direct references. */
+  directiveLine?: number;
+  dependencies: PackageDependency[];
+  requestedBy: DependencyRequest[];
+  /** Requests the resolved version does not satisfy. */
+  conflicts: string[];
+  /** True when no registration metadata was found for the version. */
+  unresolved?: boolean;
+}
+
+export interface DependencyGraph {
+  targetFramework: string;
+  /** Every package in the closure, keyed by lower-case id. */
+  packages: Map<string, ResolvedPackage>;
+  /** Lower-case ids of the direct references, in directive order. */
+  roots: string[];
+  truncated: boolean;
+}
+
+/**
+ * Resolves the transitive closure of a file's `#:package` directives for a
+ * target framework, approximating NuGet: direct references win, and
+ * otherwise the highest lower bound requested for a package is used.
+ */
+export async function resolveDependencyGraph(
+  uri: vscode.Uri,
+  directives: Directive[],
+  targetFramework: string,
+  packageSources: PackageSourceService,
+  centralPackages: CentralPackageService,
+  signal?: AbortSignal
+): Promise<DependencyGraph> {
+  const framework = parseTargetFramework(targetFramework);
+  const packages = new Map<string, ResolvedPackage>();
+  const roots: string[] = [];
+
+  for (const directive of directives) {
+    if (directive.kind !== "package" || directive.errors.length > 0 || !directive.id) {
+      continue;
+    }
+    const id = directive.id.text;
+    const key = id.toLowerCase();
+    if (packages.has(key)) {
+      continue;
+    }
+    const requested = directive.version?.text ?? centralPackages.getCentralVersion(uri, id)?.version;
+    const version = requested && !isFloatingOrRange(requested)
+      ? requested
+      : await resolveFromFeed(uri, id, requested, packageSources, signal);
+    packages.set(key, {
+      id,
+      version: version ?? requested ?? "?",
+      directiveLine: directive.line,
+      dependencies: [],
+      requestedBy: [],
+      conflicts: [],
+      unresolved: !version
+    });
+    roots.push(key);
+  }
+
+  // Expand one level at a time so each level's lookups run concurrently
+  const expanded = new Map<string, string>();
+  let queue = roots.filter(key => !packages.get(key)!.unresolved);
+  let truncated = false;
+  while (queue.length > 0) {
+    const level = Array.from(new Set(queue)).filter(key => expanded.get(key) !== packages.get(key)!.version);
+    queue = [];
+    const entries = await Promise.all(level.map(key => {
+      const pkg = packages.get(key)!;
+      expanded.set(key, pkg.version);
+      return getCatalogEntry(uri, pkg.id, pkg.version, packageSources, signal);
+    }));
+
+    for (const [index, key] of level.entries()) {
+      const pkg = packages.get(key)!;
+      const entry = entries[index];
+      pkg.unresolved = !entry;
+      const group = entry && framework ? selectDependencyGroup(entry.dependencyGroups ?? [], framework) : undefined;
+      pkg.dependencies = group?.dependencies ?? [];
+
+      // Requests made by a version this package was bumped from no longer apply
+      for (const other of packages.values()) {
+        other.requestedBy = other.requestedBy.filter(request => request.from !== key);
+      }
+
+      for (const dependency of pkg.dependencies) {
+        const dependencyKey = dependency.id.toLowerCase();
+        const range = dependency.range ?? "";
+        const minVersion = parseVersionRange(range)?.minVersion;
+        const existing = packages.get(dependencyKey);
+
+        if (existing) {
+          existing.requestedBy.push({ from: key, range });
+          if (existing.directiveLine === undefined && minVersion && compareVersions(minVersion, existing.version) > 0) {
+            existing.version = minVersion;
+            queue.push(dependencyKey);
+          }
+          continue;
+        }
+        if (packages.size >= MAX_PACKAGES) {
+          truncated = true;
+          continue;
+        }
+
+        const version = minVersion ?? await resolveFromFeed(uri, dependency.id, range, packageSources, signal);
+        packages.set(dependencyKey, {
+          id: dependency.id,
+          version: version ?? "?",
+          dependencies: [],
+          requestedBy: [{ from: key, range }],
+          conflicts: [],
+          unresolved: !version
+        });
+        if (version) {
+          queue.push(dependencyKey);
+        }
+      }
+    }
+  }
+
+  for (const pkg of packages.values()) {
+    for (const request of pkg.requestedBy) {
+      const range = parseVersionRange(request.range);
+      if (range && !satisfiesRange(pkg.version, range)) {
+        pkg.conflicts.push(`${packages.get(request.from)?.id ?? request.from} requires ${request.range}`);
+      }
+    }
+  }
+  return { targetFramework, packages, roots, truncated };
+}
+
+async function resolveFromFeed(
+  uri: vscode.Uri,
+  packageId: string,
+  requested: string | undefined,
+  packageSources: PackageSourceService,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const versions = await packageSources.getVersions(uri, packageId, signal);
+  return requested ? resolveVersion(requested, versions) : findLatestVersion(versions);
+}
+
+async function getCatalogEntry(
+  uri: vscode.Uri,
+  packageId: string,
+  version: string,
+  packageSources: PackageSourceService,
+  signal?: AbortSignal
+): Promise<RegistrationCatalogEntry | undefined> {
+  try {
+    return await packageSources.getCatalogEntry(uri, packageId, version, signal);
+  } catch (error) {
+    if (isCancellation(error)) {
+      throw error;
+    }
+    // Feeds unreachable: show the package without its dependencies
+    return undefined;
+  }
+}
+
+interface DependencyNode {
+  key: string;
+  /** Keys of the packages above this one, to cut cycles. */
+  ancestors: string[];
+  /** Range requested by the parent; undefined for direct references. */
+  range?: string;
+}
+
+/**
+ * Explorer view with the transitive dependencies of the active file-based
+ * app. Resolution runs only while the view is visible.
+ */
+export class DependencyTreeProvider implements vscode.TreeDataProvider<DependencyNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly view: vscode.TreeView<DependencyNode>;
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+  private graph?: DependencyGraph;
+  private document?: vscode.Uri;
+  private pending?: AbortController;
+  private refreshTimer?: NodeJS.Timeout;
+  private stale = true;
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {
+    this.view = vscode.window.createTreeView(DEPENDENCY_VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+    const scheduleRefresh = (delay = 0) => {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = setTimeout(() => this.refresh(), delay);
+    };
+    this.disposables.push(
+      this.view,
+      this.view.onDidChangeVisibility(() => this.stale && scheduleRefresh()),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        // Keep showing the last file while e.g. the output panel has focus
+        if (editor?.document.languageId === "csharp") {
+          scheduleRefresh();
+        }
+      }),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.toString() === this.document?.toString()) {
+          scheduleRefresh(REFRESH_DELAY);
+        }
+      }),
+      metadata.onDidChange(() => scheduleRefresh()),
+      centralPackages.onDidChange(() => scheduleRefresh()),
+      { dispose: () => clearTimeout(this.refreshTimer) }
+    );
+    scheduleRefresh();
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.view.visible) {
+      this.stale = true;
+      return;
+    }
+    this.stale = false;
+    this.pending?.abort();
+
+    const editor = vscode.window.activeTextEditor;
+    const document = editor?.document.languageId === "csharp"
+      ? editor.document
+      : vscode.workspace.textDocuments.find(d => d.uri.toString() === this.document?.toString());
+    const directives = document ? parseDirectives(document.getText()).directives : [];
+    if (!document || !directives.some(d => d.kind === "package")) {
+      this.document = document?.uri;
+      this.graph = undefined;
+      this.view.message = "Open a C# file with #:package directives to see its dependencies.";
+      this.changeEmitter.fire();
+      return;
+    }
+
+    const controller = new AbortController();
+    this.pending = controller;
+    this.document = document.uri;
+    this.view.message = `Resolving dependencies of ${path.basename(document.uri.fsPath)}...`;
+    try {
+      const targetFramework = this.metadata.getTargetFramework(directives, document.uri);
+      const graph = await resolveDependencyGraph(
+        document.uri,
+        directives,
+        targetFramework,
+        this.packageSources,
+        this.centralPackages,
+        controller.signal
+      );
+      if (controller.signal.aborted) {
+        return;
+      }
+      this.graph = graph;
+      this.view.message = this.describe(graph);
+      this.changeEmitter.fire();
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error("Error resolving package dependencies:", error);
+        this.view.message = "Could not resolve dependencies. See the log for details.";
+      }
+    }
+  }
+
+  private describe(graph: DependencyGraph): string {
+    const total = graph.packages.size;
+    const direct = graph.roots.length;
+    let message = `${total} ${total === 1 ? "package" : "packages"} (${direct} direct, ${total - direct} transitive) for ${graph.targetFramework}`;
+    const conflicts = Array.from(graph.packages.values()).filter(pkg => pkg.conflicts.length > 0).length;
+    if (conflicts > 0) {
+      message += ` • ${conflicts} version ${conflicts === 1 ? "conflict" : "conflicts"}`;
+    }
+    if (graph.truncated) {
+      message += ` • stopped after ${MAX_PACKAGES} packages`;
+    }
+    return message;
+  }
+
+  getChildren(node?: DependencyNode): DependencyNode[] {
+    if (!this.graph) {
+      return [];
+    }
+    if (!node) {
+      return this.graph.roots.map(key => ({ key, ancestors: [] }));
+    }
+    if (node.ancestors.includes(node.key)) {
+      return [];
+    }
+    const pkg = this.graph.packages.get(node.key);
+    return (pkg?.dependencies ?? [])
+      .filter(dependency => this.graph!.packages.has(dependency.id.toLowerCase()))
+      .map(dependency => ({
+        key: dependency.id.toLowerCase(),
+        ancestors: [...node.ancestors, node.key],
+        range: dependency.range
+      }));
+  }
+
+  getTreeItem(node: DependencyNode): vscode.TreeItem {
+    const pkg = this.graph!.packages.get(node.key)!;
+    const cycle = node.ancestors.includes(node.key);
+    const item = new vscode.TreeItem(
+      pkg.id,
+      pkg.dependencies.length > 0 && !cycle
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+
+    item.description = pkg.version;
+    if (node.range && node.range !== pkg.version) {
+      item.description += ` (${node.range})`;
+    }
+    if (cycle) {
+      item.description += " • cycle";
+    }
+
+    if (pkg.conflicts.length > 0) {
+      item.iconPath = new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground"));
+    } else if (pkg.unresolved) {
+      item.iconPath = new vscode.ThemeIcon("question");
+    } else {
+      item.iconPath = new vscode.ThemeIcon("package");
+    }
+
+    const tooltip = new vscode.MarkdownString(`**${pkg.id}** ${pkg.version}\n\n`);
+    if (pkg.directiveLine !== undefined) {
+      tooltip.appendMarkdown(`Referenced on line ${pkg.directiveLine + 1}\n\n`);
+    }
+    const requesters = pkg.requestedBy.map(request =>
+      `- ${this.graph!.packages.get(request.from)?.id ?? request.from} requires \`${request.range}\``
+    );
+    if (requesters.length > 0) {
+      tooltip.appendMarkdown(`Requested by:\n${requesters.join("\n")}\n\n`);
+    }
+    if (pkg.conflicts.length > 0) {
+      tooltip.appendMarkdown(`⚠️ Version conflict: ${pkg.conflicts.join("; ")}\n\n`);
+    }
+    if (pkg.unresolved) {
+      tooltip.appendMarkdown("Package metadata unavailable; dependencies unknown.\n\n");
+    }
+    item.tooltip = tooltip;
+
+    if (pkg.directiveLine !== undefined && this.document) {
+      const line = new vscode.Range(pkg.directiveLine, 0, pkg.directiveLine, 0);
+      item.command = { title: "Go to Directive", command: "vscode.open", arguments: [this.document, { selection: line }] };
+    }
+    item.contextValue = pkg.directiveLine !== undefined ? "directPackage" : "transitivePackage";
+    return item;
+  }
+
+  dispose() {
+    this.pending?.abort();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
@@ -0,0 +1,628 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { CentralPackageService } from "./centralPackages";
+import {
+  appliesToSdks,
+  DEFAULT_SDK_ID,
+  DirectiveMetadataRegistry,
+  getActiveSdkIds,
+  METADATA_FILE_NAME,
+  supportsTargetFramework
+} from "./directiveMetadata";
+import {
+  Directive,
+  DirectiveDocument,
+  DirectiveKind,
+  directiveVersion,
+  groupDuplicateDirectives,
+  PackageDirective,
+  parseDirectives,
+  ProjectDirective,
+  PropertyDirective,
+  SdkDirective
+} from "./directiveParser";
+import { RegistrationCatalogEntry } from "./feedClient";
+import { findNewestCompatibleVersion, isCompatibleVersion } from "./packageCompatibility";
+import {
+  describeDeprecation,
+  describeLicenseViolation,
+  describeUncheckedLicense,
+  describeVulnerabilities,
+  getLicensePolicy
+} from "./packageHealth";
+import { PackageSourceService } from "./packageSources";
+import { getUpdateLevel } from "./packageUpdates";
+import { resolveProjectReference } from "./projectReferences";
+import { checkPropertyValue } from "./propertyValues";
+import { DirectiveRestoreMessage, mapRestoreMessages, parseRestoreMessages } from "./restoreOutput";
+import { findUpdate, isFloatingOrRange, isPrerelease, normalizeVersion } from "./versions";
+
+export type DirectiveDiagnosticCode =
+  | "invalid-syntax"
+  | "unknown-directive"
+  | "missing-version"
+  | "unknown-package"
+  | "unknown-version"
+  | "unknown-sdk"
+  | "invalid-property-value"
+  | "unknown-property"
+  | "inapplicable-property"
+  | "outdated-package"
+  | "vulnerable-package"
+  | "deprecated-package"
+  | "missing-project"
+  | "misplaced-directive"
+  | "duplicate-directive"
+  | "conflicting-version"
+  | "incompatible-target-framework"
+  | "central-version-mismatch"
+  | "incompatible-package"
+  | "disallowed-license"
+  | "unknown-license";
+
+const DEFAULT_SEVERITIES: Record<DirectiveDiagnosticCode, vscode.DiagnosticSeverity> = {
+  "invalid-syntax": vscode.DiagnosticSeverity.Error,
+  "unknown-directive": vscode.DiagnosticSeverity.Error,
+  "missing-version": vscode.DiagnosticSeverity.Warning,
+  "unknown-package": vscode.DiagnosticSeverity.Warning,
+  "unknown-version": vscode.DiagnosticSeverity.Warning,
+  "unknown-sdk": vscode.DiagnosticSeverity.Warning,
+  "invalid-property-value": vscode.DiagnosticSeverity.Warning,
+  "unknown-property": vscode.DiagnosticSeverity.Hint,
+  "inapplicable-property": vscode.DiagnosticSeverity.Information,
+  "outdated-package": vscode.DiagnosticSeverity.Information,
+  "vulnerable-package": vscode.DiagnosticSeverity.Warning,
+  "deprecated-package": vscode.DiagnosticSeverity.Warning,
+  "missing-project": vscode.DiagnosticSeverity.Error,
+  "misplaced-directive": vscode.DiagnosticSeverity.Error,
+  "duplicate-directive": vscode.DiagnosticSeverity.Error,
+  "conflicting-version": vscode.DiagnosticSeverity.Error,
+  "incompatible-target-framework": vscode.DiagnosticSeverity.Warning,
+  "central-version-mismatch": vscode.DiagnosticSeverity.Warning,
+  "incompatible-package": vscode.DiagnosticSeverity.Warning,
+  "disallowed-license": vscode.DiagnosticSeverity.Warning,
+  "unknown-license": vscode.DiagnosticSeverity.Information
+};
+
+const SEVERITY_NAMES: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint
+};
+
+const DIRECTIVE_LABELS: Record<DirectiveKind, string> = {
+  package: "Package",
+  sdk: "SDK",
+  property: "Property",
+  project: "Project"
+};
+
+// Delay after the last keystroke before re-validating
+const VALIDATION_DELAY = 500;
+
+/** Restore codes that repeat a check of this provider, and are dropped when it already reports the line. */
+const RESTORE_CODE_EQUIVALENTS: Record<string, DirectiveDiagnosticCode[]> = {
+  NU1101: ["unknown-package"],
+  NU1102: ["unknown-version"],
+  NU1103: ["unknown-version"],
+  NU1901: ["vulnerable-package"],
+  NU1902: ["vulnerable-package"],
+  NU1903: ["vulnerable-package"],
+  NU1904: ["vulnerable-package"]
+};
+
+interface LineRestoreMessage extends DirectiveRestoreMessage {
+  /** Text of the directive line when reported; editing the line retires the message. */
+  lineText: string;
+}
+
+/**
+ * Validates `#:` directives and publishes the problems to a diagnostic
+ * collection. Checks that need a feed are skipped when the feed cannot be
+ * reached, so working offline never produces false "unknown package" errors.
+ */
+export class DirectiveDiagnosticsProvider implements vscode.Disposable {
+  private readonly collection = vscode.languages.createDiagnosticCollection("csharp-directives");
+  private readonly disposables: vscode.Disposable[] = [this.collection];
+  private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+  private readonly restoreMessages = new Map<string, LineRestoreMessage[]>();
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {
+    this.disposables.push(
+      metadata.onDidChange(() => this.validateAll()),
+      centralPackages.onDidChange(() => this.validateAll()),
+      vscode.workspace.onDidOpenTextDocument(document => this.validateInBackground(document)),
+      vscode.workspace.onDidSaveTextDocument(document => this.validateInBackground(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        this.cancelValidation(document);
+        this.collection.delete(document.uri);
+        this.restoreMessages.delete(document.uri.toString());
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        // Other feeds can know packages and versions the previous ones did not
+        if (event.affectsConfiguration("csharpPackageAutocomplete.diagnostics") ||
+          event.affectsConfiguration("csharpPackageAutocomplete.feeds.additionalSources")) {
+          this.validateAll();
+        }
+      })
+    );
+
+    this.validateAll();
+  }
+
+  /**
+   * Publishes the restore errors and warnings of a `dotnet` run next to the
+   * directive diagnostics, replacing those of the previous run.
+   */
+  async setRestoreMessages(uri: vscode.Uri, output: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const messages = mapRestoreMessages(parseRestoreMessages(output), parseDirectives(document.getText()).directives);
+    this.restoreMessages.set(
+      uri.toString(),
+      messages.map(message => ({ ...message, lineText: document.lineAt(message.line).text }))
+    );
+    await this.validate(document);
+  }
+
+  private validateAll() {
+    vscode.workspace.textDocuments.forEach(document => this.validateInBackground(document));
+  }
+
+  /** For event handlers, which have nobody to report a failed validation to. */
+  private validateInBackground(document: vscode.TextDocument) {
+    this.validate(document).catch(error => {
+      console.error(`Failed to validate ${document.uri.toString()}:`, error);
+    });
+  }
+
+  private scheduleValidation(document: vscode.TextDocument) {
+    if (!isDirectiveDocument(document)) {
+      return;
+    }
+    this.cancelValidation(document);
+    this.pendingValidations.set(
+      document.uri.toString(),
+      setTimeout(() => this.validateInBackground(document), VALIDATION_DELAY)
+    );
+  }
+
+  private cancelValidation(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    const timer = this.pendingValidations.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.pendingValidations.delete(key);
+    }
+  }
+
+  async validate(document: vscode.TextDocument): Promise<void> {
+    if (!isDirectiveDocument(document)) {
+      return;
+    }
+    this.cancelValidation(document);
+
+    const configuration = vscode.workspace.getConfiguration("csharpPackageAutocomplete.diagnostics", document.uri);
+    if (!configuration.get<boolean>("enabled", true)) {
+      this.collection.set(document.uri, this.getRestoreDiagnostics(document, []));
+      return;
+    }
+
+    const version = document.version;
+    const diagnostics: vscode.Diagnostic[] = [];
+    const report = (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => {
+      const severity = this.getSeverity(configuration, code);
+      if (severity !== undefined) {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = "C# directives";
+        diagnostic.code = code;
+        if (code === "deprecated-package") {
+          diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+        }
+        diagnostics.push(diagnostic);
+      }
+    };
+
+    const parsed = parseDirectives(document.getText());
+    this.validateDocumentRules(document, parsed, report);
+    const targetFramework = this.metadata.getTargetFramework(parsed.directives, document.uri);
+    const sdkIds = getActiveSdkIds(parsed.directives);
+
+    const checks = parsed.directives.map(directive => {
+      const rangeOf = (token: { start: number; end: number }) => rangeOnLine(directive.line, token);
+
+      if (directive.errors.length > 0) {
+        directive.errors.forEach(error => report(error.code, rangeOf(error), error.message));
+        return Promise.resolve();
+      }
+      return this.validateDirective(document, directive, targetFramework, sdkIds, rangeOf, report);
+    });
+    await Promise.all(checks);
+
+    // Skip publishing if the document changed while feeds were being queried
+    if (document.version === version && !document.isClosed) {
+      this.collection.set(document.uri, [...diagnostics, ...this.getRestoreDiagnostics(document, diagnostics)]);
+    }
+  }
+
+  private getRestoreDiagnostics(document: vscode.TextDocument, directiveDiagnostics: vscode.Diagnostic[]): vscode.Diagnostic[] {
+    const messages = this.restoreMessages.get(document.uri.toString()) ?? [];
+    return messages
+      .filter(message =>
+        message.line < document.lineCount &&
+        document.lineAt(message.line).text === message.lineText &&
+        !directiveDiagnostics.some(diagnostic =>
+          diagnostic.range.start.line === message.line &&
+          RESTORE_CODE_EQUIVALENTS[message.code]?.includes(diagnostic.code as DirectiveDiagnosticCode)
+        )
+      )
+      .map(message => {
+        const line = document.lineAt(message.line);
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(message.line, line.firstNonWhitespaceCharacterIndex, message.line, line.text.trimEnd().length),
+          message.message,
+          message.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "NuGet";
+        diagnostic.code = {
+          value: message.code,
+          target: vscode.Uri.parse(`https://learn.microsoft.com/nuget/reference/errors-and-warnings/${message.code.toLowerCase()}`)
+        };
+        return diagnostic;
+      });
+  }
+
+  /** Checks that span directives: placement, duplicates and SDK/target framework agreement. */
+  private validateDocumentRules(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ) {
+    const { firstCodeLine } = parsed;
+    if (firstCodeLine !== undefined) {
+      for (const directive of parsed.directives.filter(d => d.line > firstCodeLine)) {
+        report(
+          "misplaced-directive",
+          rangeOnLine(directive.line, directive),
+          `Directives must appear before any C# code (line ${firstCodeLine + 1}).`
+        );
+      }
+    }
+
+    for (const group of groupDuplicateDirectives(parsed.directives)) {
+      const [first, ...others] = group;
+      const versions = group.map(directiveVersion);
+      const distinctVersions = new Set(versions.filter((v): v is string => !!v).map(normalizeVersion));
+
+      const label = DIRECTIVE_LABELS[first.kind as DirectiveKind];
+      if ((first.kind === "package" || first.kind === "sdk") && distinctVersions.size > 1) {
+        const listed = Array.from(new Set(versions.filter(Boolean))).join(", ");
+        for (const directive of group) {
+          const version = directive.kind === "package" || directive.kind === "sdk" ? directive.version : undefined;
+          report(
+            "conflicting-version",
+            rangeOnLine(directive.line, version ?? directive),
+            `${label} '${directiveName(first)}' is referenced with conflicting versions: ${listed}.`
+          );
+        }
+        continue;
+      }
+
+      for (const directive of others) {
+        report(
+          "duplicate-directive",
+          rangeOnLine(directive.line, directive),
+          `${label} '${directiveName(directive)}' is already ${first.kind === "property" ? "set" : "referenced"} on line ${first.line + 1}.`
+        );
+      }
+    }
+
+    this.validateTargetFramework(document, parsed, report);
+  }
+
+  private validateTargetFramework(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ) {
+    const valid = parsed.directives.filter(d => d.errors.length === 0);
+    // The first `#:sdk` is the project SDK; later ones are imported on top of it
+    const sdkDirective = valid.find((d): d is SdkDirective => d.kind === "sdk");
+    const sdkId = sdkDirective?.name?.text ?? DEFAULT_SDK_ID;
+    const sdk = this.metadata.findSdk(sdkId, document.uri);
+    if (!sdk) {
+      return;
+    }
+
+    for (const directive of valid) {
+      if (directive.kind !== "property" || !directive.value ||
+        directive.name?.text.toLowerCase() !== "targetframework") {
+        continue;
+      }
+      if (!supportsTargetFramework(sdk, directive.value.text)) {
+        report(
+          "incompatible-target-framework",
+          rangeOnLine(directive.line, directive.value),
+          `TargetFramework '${directive.value.text}' is not compatible with SDK '${sdk.id}', which requires ${sdk.targetFrameworkHint ?? `a target framework matching ${sdk.targetFrameworkPattern}`}.`
+        );
+      }
+    }
+  }
+
+  private async validateDirective(
+    document: vscode.TextDocument,
+    directive: Directive,
+    targetFramework: string,
+    sdkIds: string[],
+    rangeOf: (token: { start: number; end: number }) => vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ): Promise<void> {
+    switch (directive.kind) {
+      case "package":
+        return this.validatePackage(document, directive, targetFramework, rangeOf, report);
+      case "sdk":
+        return this.validateSdk(document, directive, rangeOf, report);
+      case "property":
+        return this.validateProperty(document, directive, sdkIds, rangeOf, report);
+      case "project":
+        return this.validateProject(document, directive, rangeOf, report);
+    }
+  }
+
+  private async validatePackage(
+    document: vscode.TextDocument,
+    directive: PackageDirective,
+    targetFramework: string,
+    rangeOf: (token: { start: number; end: number }) => vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ): Promise<void> {
+    const { id, version } = directive;
+    if (!id) {
+      return;
+    }
+    const packageId = id.text;
+
+    // Without a version, a central pin from Directory.Packages.props applies
+    const central = this.centralPackages.getCentralVersion(document.uri, packageId);
+    if (!version && !central) {
+      report("missing-version", rangeOf(id), `Package '${packageId}' has no version. Use '#:package ${packageId}@<version>'.`);
+    }
+    if (version?.text && central && normalizeVersion(version.text) !== normalizeVersion(central.version)) {
+      report(
+        "central-version-mismatch",
+        rangeOf(version),
+        `Package '${packageId}' is pinned to ${central.version} in ${path.basename(central.file)}, but this directive uses ${version.text}.`
+      );
+    }
+
+    const versions = await this.packageSources.lookupVersions(document.uri, packageId);
+    if (versions === undefined) {
+      // Feeds unreachable: nothing definitive to say
+      return;
+    }
+    if (versions.length === 0) {
+      report("unknown-package", rangeOf(id), `Package '${packageId}' was not found on any configured package source.`);
+      return;
+    }
+
+    if (version && !isFloatingOrRange(version.text)) {
+      const normalized = normalizeVersion(version.text);
+      if (!versions.some(v => normalizeVersion(v) === normalized)) {
+        report("unknown-version", rangeOf(version), `Version '${version.text}' of package '${packageId}' was not found on any configured package source.`);
+        return;
+      }
+
+      const update = findUpdate(version.text, versions, getUpdateLevel(document.uri));
+      if (update) {
+        report("outdated-package", rangeOf(version), `Package '${packageId}' ${version.text} is outdated. Latest version: ${update}.`);
+      }
+
+      await this.validatePackageHealth(document, packageId, version.text, rangeOf(directive.argument!), report);
+      await this.validateCompatibility(document, packageId, version.text, versions, targetFramework, rangeOf(version), report);
+    }
+  }
+
+  private async validateCompatibility(
+    document: vscode.TextDocument,
+    packageId: string,
+    version: string,
+    versions: string[],
+    targetFramework: string,
+    range: vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ): Promise<void> {
+    // Only a definite "no" is reported; packages without dependency groups are unknown
+    if (await isCompatibleVersion(this.packageSources, document.uri, packageId, version, targetFramework) !== false) {
+      return;
+    }
+    const compatible = await findNewestCompatibleVersion(
+      this.packageSources,
+      document.uri,
+      packageId,
+      versions,
+      targetFramework,
+      isPrerelease(version)
+    );
+    report(
+      "incompatible-package",
+      range,
+      `Package '${packageId}' ${version} has no assets compatible with ${targetFramework}.${
+        compatible ? ` Newest compatible version: ${compatible}.` : ""
+      }`
+    );
+  }
+
+  private async validatePackageHealth(
+    document: vscode.TextDocument,
+    packageId: string,
+    version: string,
+    range: vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ): Promise<void> {
+    let entry: RegistrationCatalogEntry | undefined;
+    try {
+      entry = await this.packageSources.getCatalogEntry(document.uri, packageId, version);
+    } catch {
+      // Registration metadata unavailable: nothing definitive to say
+      return;
+    }
+    if (!entry) {
+      return;
+    }
+
+    const vulnerabilities = describeVulnerabilities(entry);
+    if (vulnerabilities) {
+      report("vulnerable-package", range, vulnerabilities);
+    }
+    const deprecation = describeDeprecation(entry);
+    if (deprecation) {
+      report("deprecated-package", range, deprecation);
+    }
+
+    const policy = getLicensePolicy(document.uri);
+    const violation = describeLicenseViolation(entry, policy);
+    if (violation) {
+      report("disallowed-license", range, violation);
+    }
+    const unchecked = describeUncheckedLicense(entry, policy);
+    if (unchecked) {
+      report("unknown-license", range, unchecked);
+    }
+  }
+
+  private async validateSdk(
+    document: vscode.TextDocument,
+    directive: SdkDirective,
+    rangeOf: (token: { start: number; end: number }) => vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ): Promise<void> {
+    const { name, version } = directive;
+    if (!name) {
+      return;
+    }
+    const sdkId = name.text;
+
+    // SDKs bundled with the .NET SDK need no feed; anything else must come from one
+    const known = this.metadata.findSdk(sdkId, document.uri) !== undefined;
+    if (known && !version) {
+      return;
+    }
+
+    const versions = await this.packageSources.lookupVersions(document.uri, sdkId);
+    if (versions === undefined) {
+      // Feeds unreachable: nothing definitive to say
+      return;
+    }
+    if (versions.length === 0) {
+      if (!known) {
+        report("unknown-sdk", rangeOf(name), `Unknown SDK '${sdkId}'. It is neither a known SDK nor an SDK package on any configured package source.`);
+      }
+      return;
+    }
+
+    if (version && !isFloatingOrRange(version.text)) {
+      const normalized = normalizeVersion(version.text);
+      if (!versions.some(v => normalizeVersion(v) === normalized)) {
+        report("unknown-version", rangeOf(version), `Version '${version.text}' of SDK '${sdkId}' was not found on any configured package source.`);
+      }
+    }
+  }
+
+  private validateProperty(
+    document: vscode.TextDocument,
+    directive: PropertyDirective,
+    sdkIds: string[],
+    rangeOf: (token: { start: number; end: number }) => vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ) {
+    const { name, value } = directive;
+    if (!name || !value) {
+      return;
+    }
+
+    const property = this.metadata.findProperty(name.text, document.uri);
+    if (!property) {
+      // Any property is valid MSBuild, so only hint that nothing is checked
+      report(
+        "unknown-property",
+        rangeOf(name),
+        `'${name.text}' is not in the property catalog, so its value is not checked. Add it to ${METADATA_FILE_NAME} to describe it.`
+      );
+      return;
+    }
+    if (!appliesToSdks(property, sdkIds)) {
+      report(
+        "inapplicable-property",
+        rangeOf(name),
+        `${property.name} is only used by ${property.sdks!.join(", ")}; this file uses ${sdkIds.join(", ")}.`
+      );
+    }
+
+    const problem = checkPropertyValue(property, value.text);
+    if (problem) {
+      report("invalid-property-value", rangeOf(value), `'${value.text}' is not a valid value for ${property.name}. ${problem}.`);
+    }
+  }
+
+  private validateProject(
+    document: vscode.TextDocument,
+    directive: ProjectDirective,
+    rangeOf: (token: { start: number; end: number }) => vscode.Range,
+    report: (code: DirectiveDiagnosticCode, range: vscode.Range, message: string) => void
+  ) {
+    // Relative paths mean nothing for untitled documents
+    if (!directive.path || document.uri.scheme !== "file") {
+      return;
+    }
+    const resolution = resolveProjectReference(document.uri.fsPath, directive.path.text);
+    if ("problem" in resolution) {
+      report("missing-project", rangeOf(directive.path), resolution.problem);
+    }
+  }
+
+  private getSeverity(
+    configuration: vscode.WorkspaceConfiguration,
+    code: DirectiveDiagnosticCode
+  ): vscode.DiagnosticSeverity | undefined {
+    const configured = configuration.get<Record<string, string>>("severity", {})[code];
+    if (configured === undefined) {
+      return DEFAULT_SEVERITIES[code];
+    }
+    // "none" (or anything unrecognized) turns the check off
+    return SEVERITY_NAMES[configured.toLowerCase()];
+  }
+
+  dispose() {
+    this.pendingValidations.forEach(timer => clearTimeout(timer));
+    this.pendingValidations.clear();
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+/** Like the other providers, only files on disk: diff views and git revisions are left alone. */
+function isDirectiveDocument(document: vscode.TextDocument): boolean {
+  return document.languageId === "csharp" && document.uri.scheme === "file";
+}
+
+function rangeOnLine(line: number, span: { start: number; end: number }): vscode.Range {
+  return new vscode.Range(line, span.start, line, Math.max(span.end, span.start + 1));
+}
+
+function directiveName(directive: Directive): string {
+  switch (directive.kind) {
+    case "package":
+      return directive.id?.text ?? "";
+    case "sdk":
+    case "property":
+      return directive.name?.text ?? "";
+    case "project":
+      return directive.path?.text ?? "";
+    default:
+      return directive.keyword.text;
+  }
+}
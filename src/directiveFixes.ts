@@ -0,0 +1,212 @@
+import * as vscode from "vscode";
+import { CentralPackageService } from "./centralPackages";
+import { DEFAULT_SDK_ID, DirectiveMetadataRegistry, supportsTargetFramework } from "./directiveMetadata";
+import {
+  Directive,
+  DirectiveDocument,
+  directiveVersion,
+  findDirectiveInsertLine,
+  groupDuplicateDirectives,
+  parseDirectives,
+  SdkDirective
+} from "./directiveParser";
+import { findNewestCompatibleVersion } from "./packageCompatibility";
+import { PackageSourceService } from "./packageSources";
+import { compareVersions, isPrerelease } from "./versions";
+
+/**
+ * Quick fixes for the document-level directive diagnostics: misplaced
+ * directives, duplicates, conflicting versions, target frameworks the
+ * project SDK does not support, versions that disagree with a central pin
+ * and versions without assets for the file's target framework.
+ */
+export class DirectiveFixCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const parsed = parseDirectives(document.getText());
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      const directive = parsed.directives.find(d => d.line === diagnostic.range.start.line);
+      if (!directive) {
+        continue;
+      }
+
+      let action: vscode.CodeAction | undefined;
+      switch (diagnostic.code) {
+        case "misplaced-directive":
+          action = this.moveToTop(document, parsed, directive);
+          break;
+        case "duplicate-directive":
+          action = this.removeDirectives(document, "Remove duplicate directive", [directive]);
+          break;
+        case "conflicting-version":
+          action = this.keepHighestVersion(document, parsed, directive);
+          break;
+        case "incompatible-target-framework":
+          action = this.changeTargetFramework(document, parsed, directive);
+          break;
+        case "central-version-mismatch":
+          action = this.alignWithCentralVersion(document, directive);
+          break;
+        case "incompatible-package":
+          action = await this.useCompatibleVersion(document, parsed, directive);
+          break;
+      }
+      if (action) {
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        actions.push(action);
+      }
+    }
+    return actions;
+  }
+
+  private moveToTop(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    directive: Directive
+  ): vscode.CodeAction | undefined {
+    if (parsed.firstCodeLine === undefined) {
+      return undefined;
+    }
+    // Right after the last directive that is already in place, or the shebang
+    const insertLine = findDirectiveInsertLine(parsed);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+    const action = new vscode.CodeAction("Move directive to the top of the file", vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(insertLine, 0), document.lineAt(directive.line).text.trim() + eol);
+    // The last line has no line break of its own, so take the one before it
+    const line = document.lineAt(directive.line);
+    const isLastLine = directive.line === document.lineCount - 1 && directive.line > 0;
+    action.edit.delete(
+      document.uri,
+      isLastLine ? new vscode.Range(document.lineAt(directive.line - 1).range.end, line.range.end) : line.rangeIncludingLineBreak
+    );
+    return action;
+  }
+
+  private keepHighestVersion(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    directive: Directive
+  ): vscode.CodeAction | undefined {
+    const group = groupDuplicateDirectives(parsed.directives).find(g => g.includes(directive));
+    if (!group) {
+      return undefined;
+    }
+    const highest = group.reduce((best, candidate) =>
+      compareVersions(directiveVersion(candidate) ?? "", directiveVersion(best) ?? "") > 0 ? candidate : best
+    );
+    return this.removeDirectives(
+      document,
+      `Keep highest version (${directiveVersion(highest)})`,
+      group.filter(d => d !== highest)
+    );
+  }
+
+  private changeTargetFramework(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    directive: Directive
+  ): vscode.CodeAction | undefined {
+    if (directive.kind !== "property" || !directive.value) {
+      return undefined;
+    }
+    const sdkDirective = parsed.directives.find((d): d is SdkDirective => d.kind === "sdk" && d.errors.length === 0);
+    const sdk = this.metadata.findSdk(sdkDirective?.name?.text ?? DEFAULT_SDK_ID, document.uri);
+    if (!sdk) {
+      return undefined;
+    }
+
+    // Prefer the same .NET version with a platform suffix (net10.0 -> net10.0-windows)
+    const current = directive.value.text;
+    const knownFrameworks = this.metadata.findProperty("TargetFramework", document.uri)?.possibleValues ?? [];
+    const candidates = [current, ...knownFrameworks].flatMap(framework => [framework, `${framework}-windows`]);
+    const replacement = candidates.find(framework => supportsTargetFramework(sdk, framework));
+    if (!replacement) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(`Change TargetFramework to ${replacement}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      new vscode.Range(directive.line, directive.value.start, directive.line, directive.value.end),
+      replacement
+    );
+    return action;
+  }
+
+  private alignWithCentralVersion(document: vscode.TextDocument, directive: Directive): vscode.CodeAction | undefined {
+    if (directive.kind !== "package" || !directive.id || !directive.version) {
+      return undefined;
+    }
+    const central = this.centralPackages.getCentralVersion(document.uri, directive.id.text);
+    if (!central) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(`Use central version ${central.version}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      new vscode.Range(directive.line, directive.version.start, directive.line, directive.version.end),
+      central.version
+    );
+    return action;
+  }
+
+  private async useCompatibleVersion(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    directive: Directive
+  ): Promise<vscode.CodeAction | undefined> {
+    if (directive.kind !== "package" || !directive.id || !directive.version) {
+      return undefined;
+    }
+    const packageId = directive.id.text;
+    const versions = await this.packageSources.lookupVersions(document.uri, packageId);
+    const compatible = versions && await findNewestCompatibleVersion(
+      this.packageSources,
+      document.uri,
+      packageId,
+      versions,
+      this.metadata.getTargetFramework(parsed.directives, document.uri),
+      isPrerelease(directive.version.text)
+    );
+    if (!compatible) {
+      return undefined;
+    }
+
+    const action = new vscode.CodeAction(`Use compatible version ${compatible}`, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      new vscode.Range(directive.line, directive.version.start, directive.line, directive.version.end),
+      compatible
+    );
+    return action;
+  }
+
+  private removeDirectives(document: vscode.TextDocument, title: string, directives: Directive[]): vscode.CodeAction {
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    for (const directive of directives) {
+      action.edit.delete(document.uri, document.lineAt(directive.line).rangeIncludingLineBreak);
+    }
+    return action;
+  }
+}
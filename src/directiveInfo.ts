@@ -0,0 +1,94 @@
+/**
+ * The SDKs and properties offered for `#:sdk` and `#:property`, and the
+ * checks for entries contributed by `csharp-directives.json` or settings.
+ */
+
+import { PACKAGE_ID_PATTERN, PROPERTY_NAME_PATTERN } from "./directiveParser";
+import { getValueType, PROPERTY_VALUE_TYPES, PropertyValueType } from "./propertyValues";
+
+export interface SdkInfo {
+  id: string;
+  displayName: string;
+  description: string;
+  defaultTargetFramework?: string;
+  /** Regular expression (case-insensitive) a `TargetFramework` must match to be usable with this SDK. */
+  targetFrameworkPattern?: string;
+  /** Describes the accepted target frameworks, for diagnostics. */
+  targetFrameworkHint?: string;
+}
+
+export interface PropertyInfo {
+  name: string;
+  description: string;
+  /** Defaults to `enum` when `possibleValues` are listed, `text` otherwise. */
+  type?: PropertyValueType;
+  possibleValues?: string[];
+  defaultValue?: string;
+  /** SDK ids the property is used by; unset for properties every SDK understands. */
+  sdks?: string[];
+}
+
+export type SdkContribution = Partial<SdkInfo> & { id: string };
+export type PropertyContribution = Partial<PropertyInfo> & { name: string };
+
+/** Returns the validated entry, or a message explaining why it was rejected. */
+export function validateSdkContribution(value: unknown): SdkContribution | string {
+  if (!isObject(value)) {
+    return "SDK entries must be objects";
+  }
+  if (typeof value.id !== "string" || !PACKAGE_ID_PATTERN.test(value.id)) {
+    return `invalid SDK id ${JSON.stringify(value.id)}`;
+  }
+  for (const field of ["displayName", "description", "defaultTargetFramework", "targetFrameworkPattern", "targetFrameworkHint"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") {
+      return `SDK '${value.id}': '${field}' must be a string`;
+    }
+  }
+  if (typeof value.targetFrameworkPattern === "string") {
+    try {
+      new RegExp(value.targetFrameworkPattern, "i");
+    } catch {
+      return `SDK '${value.id}': 'targetFrameworkPattern' is not a valid regular expression`;
+    }
+  }
+  return value as SdkContribution;
+}
+
+/** Returns the validated entry, or a message explaining why it was rejected. */
+export function validatePropertyContribution(value: unknown): PropertyContribution | string {
+  if (!isObject(value)) {
+    return "property entries must be objects";
+  }
+  if (typeof value.name !== "string" || !PROPERTY_NAME_PATTERN.test(value.name)) {
+    return `invalid property name ${JSON.stringify(value.name)}`;
+  }
+  for (const field of ["description", "defaultValue"]) {
+    if (value[field] !== undefined && typeof value[field] !== "string") {
+      return `property '${value.name}': '${field}' must be a string`;
+    }
+  }
+  if (value.type !== undefined && !PROPERTY_VALUE_TYPES.includes(value.type as PropertyValueType)) {
+    return `property '${value.name}': 'type' must be one of ${PROPERTY_VALUE_TYPES.join(", ")}`;
+  }
+  if (value.sdks !== undefined &&
+    (!Array.isArray(value.sdks) || value.sdks.some(sdk => typeof sdk !== "string" || !PACKAGE_ID_PATTERN.test(sdk)))) {
+    return `property '${value.name}': 'sdks' must be an array of SDK ids`;
+  }
+
+  const { possibleValues, defaultValue } = value;
+  if (possibleValues !== undefined) {
+    if (!Array.isArray(possibleValues) || possibleValues.some(v => typeof v !== "string" || !v)) {
+      return `property '${value.name}': 'possibleValues' must be an array of non-empty strings`;
+    }
+    // For other types the possible values are only suggestions
+    if (getValueType(value as PropertyContribution) === "enum" && typeof defaultValue === "string" &&
+      !possibleValues.some(v => v.toLowerCase() === defaultValue.toLowerCase())) {
+      return `property '${value.name}': default value '${defaultValue}' is not one of its possible values`;
+    }
+  }
+  return value as PropertyContribution;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
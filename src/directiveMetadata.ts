@@ -0,0 +1,569 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { PropertyInfo, SdkInfo, validatePropertyContribution, validateSdkContribution } from "./directiveInfo";
+import { Directive } from "./directiveParser";
+
+/** True when the SDK accepts the target framework, or does not restrict target frameworks. */
+export function supportsTargetFramework(sdk: SdkInfo, targetFramework: string): boolean {
+  return !sdk.targetFrameworkPattern || new RegExp(sdk.targetFrameworkPattern, "i").test(targetFramework);
+}
+
+/** The SDK of a file-based app without `#:sdk`. */
+export const DEFAULT_SDK_ID = "Microsoft.NET.Sdk";
+
+/** The ids of the file's `#:sdk` directives, or the default SDK when it has none. */
+export function getActiveSdkIds(directives: Directive[]): string[] {
+  const ids = directives.flatMap(d => d.kind === "sdk" && d.errors.length === 0 && d.name ? [d.name.text] : []);
+  return ids.length > 0 ? ids : [DEFAULT_SDK_ID];
+}
+
+/** True when the property is not SDK-specific or one of the SDKs uses it. */
+export function appliesToSdks(property: PropertyInfo, sdkIds: string[]): boolean {
+  return !property.sdks || property.sdks.some(sdk => sdkIds.some(id => id.toLowerCase() === sdk.toLowerCase()));
+}
+
+/** NuGet package type of MSBuild project SDKs that can be referenced as `#:sdk Name@Version`. */
+export const MSBUILD_SDK_PACKAGE_TYPE = "MSBuildSdk";
+
+// Common .NET SDKs
+export const COMMON_SDKS: SdkInfo[] = [
+  {
+    id: "Microsoft.NET.Sdk",
+    displayName: "Console/Library SDK",
+    description: "Default SDK for console applications and class libraries",
+    defaultTargetFramework: "net10.0"
+  },
+  {
+    id: "Microsoft.NET.Sdk.Web",
+    displayName: "Web SDK",
+    description: "SDK for ASP.NET Core applications, Web APIs, and Blazor apps",
+    targetFrameworkPattern: "^net(coreapp)?\\d+\\.\\d+(-[a-z]+[\\d.]*)?$",
+    targetFrameworkHint: "a .NET target framework such as net10.0"
+  },
+  {
+    id: "Microsoft.NET.Sdk.Worker",
+    displayName: "Worker SDK",
+    description: "SDK for background service applications and hosted services",
+    targetFrameworkPattern: "^net(coreapp)?\\d+\\.\\d+(-[a-z]+[\\d.]*)?$",
+    targetFrameworkHint: "a .NET target framework such as net10.0"
+  },
+  {
+    id: "Microsoft.NET.Sdk.WindowsDesktop",
+    displayName: "Windows Desktop SDK",
+    description: "SDK for WPF and Windows Forms applications",
+    targetFrameworkPattern: "^(net\\d+\\.\\d+-windows[\\d.]*|net4\\d+)$",
+    targetFrameworkHint: "a Windows target framework such as net10.0-windows"
+  },
+  {
+    id: "Microsoft.NET.Sdk.Razor",
+    displayName: "Razor SDK",
+    description: "SDK for Razor class libraries and components",
+    targetFrameworkPattern: "^(net(coreapp)?\\d+\\.\\d+(-[a-z]+[\\d.]*)?|netstandard2\\.[01])$",
+    targetFrameworkHint: "a .NET or .NET Standard 2.x target framework"
+  },
+  {
+    id: "Microsoft.NET.Sdk.BlazorWebAssembly",
+    displayName: "Blazor WebAssembly SDK",
+    description: "SDK for Blazor WebAssembly applications",
+    targetFrameworkPattern: "^net\\d+\\.\\d+(-browser[\\d.]*)?$",
+    targetFrameworkHint: "a .NET target framework such as net10.0"
+  }
+];
+
+// What the default SDK builds for when no TargetFramework is set
+const DEFAULT_TARGET_FRAMEWORK = COMMON_SDKS.find(sdk => sdk.id === DEFAULT_SDK_ID)?.defaultTargetFramework ?? "net10.0";
+
+const WEB_SDKS = ["Microsoft.NET.Sdk.Web", "Microsoft.NET.Sdk.Razor", "Microsoft.NET.Sdk.BlazorWebAssembly"];
+
+// Common MSBuild properties for file-based apps
+export const COMMON_PROPERTIES: PropertyInfo[] = [
+  // Language and compiler
+  {
+    name: "LangVersion",
+    description: "C# language version to use",
+    possibleValues: ["latest", "latestMajor", "preview", "default", "14", "13", "12", "11", "10", "9", "8", "7.3", "7.2", "7.1", "7"],
+    defaultValue: "latest"
+  },
+  {
+    name: "Nullable",
+    description: "Nullable reference types setting",
+    possibleValues: ["enable", "disable", "warnings", "annotations"],
+    defaultValue: "enable"
+  },
+  {
+    name: "ImplicitUsings",
+    description: "Enable implicit using statements",
+    possibleValues: ["enable", "disable"],
+    defaultValue: "enable"
+  },
+  {
+    name: "AllowUnsafeBlocks",
+    description: "Allow code that uses the unsafe keyword",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "EnablePreviewFeatures",
+    description: "Enable preview language and runtime features",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "Optimize",
+    description: "Enable compiler optimizations",
+    type: "bool"
+  },
+  {
+    name: "Deterministic",
+    description: "Produce identical output for identical inputs",
+    type: "bool",
+    defaultValue: "true"
+  },
+  {
+    name: "DebugType",
+    description: "Format of the debug symbols",
+    possibleValues: ["portable", "embedded", "full", "pdbonly", "none"],
+    defaultValue: "portable"
+  },
+  {
+    name: "GenerateDocumentationFile",
+    description: "Generate an XML documentation file from documentation comments",
+    type: "bool",
+    defaultValue: "false"
+  },
+
+  // Warnings and analyzers
+  {
+    name: "TreatWarningsAsErrors",
+    description: "Treat compiler warnings as errors",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "WarningLevel",
+    description: "Compiler warning level; levels above 4 enable the warning waves of newer compilers",
+    type: "int",
+    possibleValues: ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9", "9999"],
+    defaultValue: "4"
+  },
+  {
+    name: "NoWarn",
+    description: "Warning codes to suppress, separated by semicolons",
+    type: "list",
+    possibleValues: ["$(NoWarn)", "CS1591", "CS8618", "CS0618", "NU1603", "NU1701", "IL2026", "IL3050"]
+  },
+  {
+    name: "WarningsAsErrors",
+    description: "Warning codes to report as errors, separated by semicolons",
+    type: "list",
+    possibleValues: ["$(WarningsAsErrors)", "nullable", "CS8600", "CS8602", "CS8618"]
+  },
+  {
+    name: "EnableNETAnalyzers",
+    description: "Run the .NET code quality analyzers",
+    type: "bool",
+    defaultValue: "true"
+  },
+  {
+    name: "AnalysisLevel",
+    description: "Version and set of the .NET code quality rules to enable",
+    type: "text",
+    possibleValues: ["latest", "latest-recommended", "latest-all", "latest-minimum", "preview", "none", "10.0", "9.0", "8.0"],
+    defaultValue: "latest"
+  },
+
+  // Output and identity
+  {
+    name: "TargetFramework",
+    description: "Target framework for the application",
+    type: "tfm",
+    possibleValues: ["net10.0", "net9.0", "net8.0", "net7.0", "net6.0", "netstandard2.1", "netstandard2.0"],
+    defaultValue: DEFAULT_TARGET_FRAMEWORK
+  },
+  {
+    name: "OutputType",
+    description: "Type of output to generate",
+    possibleValues: ["Exe", "WinExe", "Library", "Module"],
+    defaultValue: "Exe"
+  },
+  {
+    name: "AssemblyName",
+    description: "Name of the output assembly, without extension",
+    type: "text"
+  },
+  {
+    name: "RootNamespace",
+    description: "Default namespace for generated code such as resources",
+    type: "text"
+  },
+  {
+    name: "UserSecretsId",
+    description: "Identifier of the user secrets store, usually a GUID",
+    type: "text"
+  },
+  {
+    name: "Version",
+    description: "Version of the app, used for the assembly and file versions unless set separately",
+    type: "version",
+    defaultValue: "1.0.0"
+  },
+  {
+    name: "VersionPrefix",
+    description: "Version without its prerelease suffix",
+    type: "version",
+    defaultValue: "1.0.0"
+  },
+  {
+    name: "VersionSuffix",
+    description: "Prerelease label appended to VersionPrefix, e.g. beta1",
+    type: "text"
+  },
+  {
+    name: "AssemblyVersion",
+    description: "Version of the assembly used for binding",
+    type: "version"
+  },
+  {
+    name: "FileVersion",
+    description: "Win32 file version of the assembly",
+    type: "version"
+  },
+  {
+    name: "InformationalVersion",
+    description: "Product version shown for the assembly",
+    type: "text"
+  },
+  {
+    name: "Company",
+    description: "Company name in the assembly metadata",
+    type: "text"
+  },
+  {
+    name: "Product",
+    description: "Product name in the assembly metadata",
+    type: "text"
+  },
+  {
+    name: "Copyright",
+    description: "Copyright notice in the assembly metadata",
+    type: "text"
+  },
+
+  // Publishing
+  {
+    name: "RuntimeIdentifier",
+    description: "Runtime to build and publish for",
+    type: "rid"
+  },
+  {
+    name: "SelfContained",
+    description: "Include the .NET runtime with the published app",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "PublishAot",
+    description: "Enable ahead-of-time compilation for publishing",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "PublishTrimmed",
+    description: "Remove unused code from the published app",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "TrimMode",
+    description: "How aggressively publishing trims unused code",
+    possibleValues: ["full", "partial"],
+    defaultValue: "full"
+  },
+  {
+    name: "PublishSingleFile",
+    description: "Publish the app as a single executable file",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "PublishReadyToRun",
+    description: "Precompile assemblies to improve startup time",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "OptimizationPreference",
+    description: "Whether native AOT optimizes for speed or size",
+    possibleValues: ["Speed", "Size"]
+  },
+  {
+    name: "StripSymbols",
+    description: "Strip native debug symbols into a separate file when publishing with native AOT",
+    type: "bool",
+    defaultValue: "true"
+  },
+
+  // Runtime configuration
+  {
+    name: "InvariantGlobalization",
+    description: "Enable invariant globalization mode",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "ServerGarbageCollection",
+    description: "Use server garbage collection",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "ConcurrentGarbageCollection",
+    description: "Run background garbage collections concurrently",
+    type: "bool",
+    defaultValue: "true"
+  },
+  {
+    name: "TieredCompilation",
+    description: "Enable tiered JIT compilation",
+    type: "bool",
+    defaultValue: "true"
+  },
+  {
+    name: "TieredPGO",
+    description: "Enable dynamic profile-guided optimization",
+    type: "bool",
+    defaultValue: "true"
+  },
+  {
+    name: "UseSystemResourceKeys",
+    description: "Replace exception messages with resource keys to reduce size",
+    type: "bool",
+    defaultValue: "false"
+  },
+
+  // Windows desktop
+  {
+    name: "UseWPF",
+    description: "Enable WPF; requires a Windows target framework",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "UseWindowsForms",
+    description: "Enable Windows Forms; requires a Windows target framework",
+    type: "bool",
+    defaultValue: "false"
+  },
+  {
+    name: "ApplicationIcon",
+    description: "Path of the .ico file used as the executable's icon",
+    type: "text"
+  },
+
+  // Web
+  {
+    name: "AspNetCoreHostingModel",
+    description: "Whether IIS hosts the app in-process or forwards to Kestrel",
+    possibleValues: ["InProcess", "OutOfProcess"],
+    defaultValue: "InProcess",
+    sdks: ["Microsoft.NET.Sdk.Web"]
+  },
+  {
+    name: "OpenApiGenerateDocuments",
+    description: "Generate OpenAPI documents at build time",
+    type: "bool",
+    sdks: ["Microsoft.NET.Sdk.Web"]
+  },
+  {
+    name: "StaticWebAssetBasePath",
+    description: "Base path under which static web assets are served",
+    type: "text",
+    sdks: WEB_SDKS
+  },
+  {
+    name: "BlazorWebAssemblyLoadAllGlobalizationData",
+    description: "Load all ICU globalization data in the browser",
+    type: "bool",
+    defaultValue: "false",
+    sdks: ["Microsoft.NET.Sdk.BlazorWebAssembly"]
+  },
+  {
+    name: "RunAOTCompilation",
+    description: "Compile the app to WebAssembly ahead of time when publishing",
+    type: "bool",
+    defaultValue: "false",
+    sdks: ["Microsoft.NET.Sdk.BlazorWebAssembly"]
+  }
+];
+
+/** Checked into a workspace folder to contribute SDKs and properties for everyone working in it. */
+export const METADATA_FILE_NAME = "csharp-directives.json";
+
+interface DirectiveMetadata {
+  sdks: SdkInfo[];
+  properties: PropertyInfo[];
+}
+
+/**
+ * The SDKs and properties known to completion, hover and diagnostics: the
+ * built-in tables, extended (or overridden, by id/name) first by the
+ * workspace folder's `csharp-directives.json` and then by settings.
+ */
+export class DirectiveMetadataRegistry implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  private metadataByFolder = new Map<string, DirectiveMetadata>();
+  private reportedProblems = new Set<string>();
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${METADATA_FILE_NAME}`);
+    const reset = () => {
+      this.metadataByFolder.clear();
+      this.changeEmitter.fire();
+    };
+    this.disposables.push(
+      watcher,
+      watcher.onDidChange(reset),
+      watcher.onDidCreate(reset),
+      watcher.onDidDelete(reset),
+      vscode.workspace.onDidChangeWorkspaceFolders(reset),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration("csharpPackageAutocomplete.directives")) {
+          reset();
+        }
+      })
+    );
+  }
+
+  getSdks(uri?: vscode.Uri): SdkInfo[] {
+    return this.getMetadata(uri).sdks;
+  }
+
+  findSdk(sdkId: string, uri?: vscode.Uri): SdkInfo | undefined {
+    const lowerId = sdkId.toLowerCase();
+    return this.getSdks(uri).find(sdk => sdk.id.toLowerCase() === lowerId);
+  }
+
+  getProperties(uri?: vscode.Uri): PropertyInfo[] {
+    return this.getMetadata(uri).properties;
+  }
+
+  findProperty(name: string, uri?: vscode.Uri): PropertyInfo | undefined {
+    const lowerName = name.toLowerCase();
+    return this.getProperties(uri).find(property => property.name.toLowerCase() === lowerName);
+  }
+
+  /**
+   * The target framework a file-based app builds for: its last
+   * `#:property TargetFramework`, otherwise the default of its SDK.
+   */
+  getTargetFramework(directives: Directive[], uri?: vscode.Uri): string {
+    const property = directives.filter(d => d.kind === "property" && d.errors.length === 0 &&
+      d.name?.text.toLowerCase() === "targetframework").pop();
+    if (property?.kind === "property" && property.value) {
+      return property.value.text;
+    }
+    const sdkId = getActiveSdkIds(directives)[0];
+    return this.findSdk(sdkId, uri)?.defaultTargetFramework ??
+      this.findSdk(DEFAULT_SDK_ID, uri)?.defaultTargetFramework ??
+      DEFAULT_TARGET_FRAMEWORK;
+  }
+
+  private getMetadata(uri: vscode.Uri | undefined): DirectiveMetadata {
+    const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+    const key = folder?.uri.toString() ?? "";
+    let metadata = this.metadataByFolder.get(key);
+    if (!metadata) {
+      metadata = this.load(folder);
+      this.metadataByFolder.set(key, metadata);
+    }
+    return metadata;
+  }
+
+  private load(folder: vscode.WorkspaceFolder | undefined): DirectiveMetadata {
+    const problems: string[] = [];
+    const sdks: unknown[] = [];
+    const properties: unknown[] = [];
+
+    if (folder?.uri.scheme === "file") {
+      const filePath = path.join(folder.uri.fsPath, METADATA_FILE_NAME);
+      try {
+        const content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+        sdks.push(...asArray(content?.sdks, `${METADATA_FILE_NAME}: 'sdks'`, problems));
+        properties.push(...asArray(content?.properties, `${METADATA_FILE_NAME}: 'properties'`, problems));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          problems.push(`${METADATA_FILE_NAME}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // Settings come last so a user can override what the repository ships
+    const configuration = vscode.workspace.getConfiguration("csharpPackageAutocomplete.directives", folder);
+    sdks.push(...asArray(configuration.get("sdks"), "directives.sdks setting", problems));
+    properties.push(...asArray(configuration.get("properties"), "directives.properties setting", problems));
+
+    const metadata = {
+      sdks: merge(COMMON_SDKS, sdks, validateSdkContribution, sdk => sdk.id, problems)
+        .map(sdk => ({ displayName: sdk.id, description: "", ...sdk })),
+      properties: merge(COMMON_PROPERTIES, properties, validatePropertyContribution, p => p.name, problems)
+        .map(property => ({ description: "", ...property }))
+    };
+    this.reportProblems(problems);
+    return metadata;
+  }
+
+  private reportProblems(problems: string[]) {
+    // Metadata is reloaded per workspace folder; only surface each problem once
+    const newProblems = problems.filter(problem => !this.reportedProblems.has(problem));
+    if (newProblems.length === 0) {
+      return;
+    }
+    newProblems.forEach(problem => this.reportedProblems.add(problem));
+    const more = newProblems.length > 1 ? ` (and ${newProblems.length - 1} more)` : "";
+    vscode.window.showWarningMessage(`Ignored invalid directive metadata: ${newProblems[0]}${more}.`);
+    console.error("Invalid directive metadata:", newProblems);
+  }
+
+  dispose() {
+    this.disposables.forEach(d => d.dispose());
+  }
+}
+
+function merge<T extends object, C extends Partial<T>>(
+  builtIn: T[],
+  contributions: unknown[],
+  validate: (value: unknown) => C | string,
+  keyOf: (entry: C) => string,
+  problems: string[]
+): C[] {
+  const merged = new Map<string, C>();
+  for (const entry of builtIn as unknown as C[]) {
+    merged.set(keyOf(entry).toLowerCase(), entry);
+  }
+  for (const value of contributions) {
+    const entry = validate(value);
+    if (typeof entry === "string") {
+      problems.push(entry);
+      continue;
+    }
+    // Contributed fields replace the matching entry's fields, the rest are kept
+    const key = keyOf(entry).toLowerCase();
+    merged.set(key, { ...merged.get(key), ...entry });
+  }
+  return Array.from(merged.values());
+}
+
+function asArray(value: unknown, origin: string, problems: string[]): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    problems.push(`${origin} must be an array`);
+    return [];
+  }
+  return value;
+}
@@ -0,0 +1,325 @@
+/**
+ * Parser for the `#:` directives of .NET file-based apps. It has no
+ * dependency on VS Code so it can be unit tested under plain Node; all
+ * positions are zero-based line numbers and column offsets.
+ */
+
+export type DirectiveKind = "package" | "sdk" | "property" | "project";
+
+export const DIRECTIVE_KINDS: DirectiveKind[] = ["package", "sdk", "property", "project"];
+
+/** NuGet package and SDK ids: word characters separated by single dots or dashes. */
+export const PACKAGE_ID_PATTERN = /^\w+(?:[.-]\w+)*$/;
+/** MSBuild property names. */
+export const PROPERTY_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+export interface Token {
+  text: string;
+  /** Column of the first character. */
+  start: number;
+  /** Column after the last character. */
+  end: number;
+}
+
+export type ParseErrorCode = "invalid-syntax" | "unknown-directive";
+
+export interface ParseError {
+  code: ParseErrorCode;
+  message: string;
+  start: number;
+  end: number;
+}
+
+interface DirectiveBase {
+  line: number;
+  /** Column of `#:`; directives may be indented. */
+  start: number;
+  /** Column after the last non-whitespace character. */
+  end: number;
+  /** The directive name after `#:`, e.g. `package`. */
+  keyword: Token;
+  /**
+   * Everything after the whitespace following the keyword, without trailing
+   * whitespace. Undefined when the line ends right after the keyword.
+   */
+  argument?: Token;
+  errors: ParseError[];
+}
+
+export interface PackageDirective extends DirectiveBase {
+  kind: "package";
+  id?: Token;
+  /** Present (possibly empty) whenever the argument contains `@`. */
+  version?: Token;
+}
+
+export interface SdkDirective extends DirectiveBase {
+  kind: "sdk";
+  name?: Token;
+  /** Present (possibly empty) whenever the argument contains `@`. */
+  version?: Token;
+}
+
+export interface PropertyDirective extends DirectiveBase {
+  kind: "property";
+  name?: Token;
+  /** Present (possibly empty) once a separator follows the name. */
+  value?: Token;
+}
+
+export interface ProjectDirective extends DirectiveBase {
+  kind: "project";
+  path?: Token;
+}
+
+export interface UnknownDirective extends DirectiveBase {
+  kind: "unknown";
+}
+
+export type Directive = PackageDirective | SdkDirective | PropertyDirective | ProjectDirective | UnknownDirective;
+
+export interface DirectiveDocument {
+  /** True when the first line is a `#!` shebang, which `dotnet run` skips. */
+  hasShebang: boolean;
+  /**
+   * First line containing C# code, i.e. anything but whitespace, comments,
+   * `#:` directives and other preprocessor lines. Directives must come before it.
+   */
+  firstCodeLine?: number;
+  directives: Directive[];
+}
+
+export function parseDirectives(text: string): DirectiveDocument {
+  const lines = text.split(/\r?\n/);
+  const hasShebang = lines[0]?.startsWith("#!") ?? false;
+
+  const directives: Directive[] = [];
+  let firstCodeLine: number | undefined;
+  let inBlockComment = false;
+  lines.forEach((lineText, line) => {
+    if (line === 0 && hasShebang) {
+      return;
+    }
+    // `#:` inside a block comment is commented out
+    const startsInComment = inBlockComment;
+    const scan = scanLine(lineText, inBlockComment);
+    inBlockComment = scan.endsInBlockComment;
+    if (scan.hasCode && firstCodeLine === undefined) {
+      firstCodeLine = line;
+    }
+
+    const directive = startsInComment ? undefined : parseDirectiveLine(lineText, line);
+    if (directive) {
+      directives.push(directive);
+    }
+  });
+  return { hasShebang, firstCodeLine, directives };
+}
+
+/**
+ * Finds comments and code on a line. String literals are skipped so that
+ * `"/*"` does not open a comment; verbatim and raw strings spanning lines
+ * are not tracked, which only matters after the directives anyway.
+ */
+function scanLine(text: string, inBlockComment: boolean): { hasCode: boolean; endsInBlockComment: boolean } {
+  let hasCode = false;
+  let index = 0;
+  while (index < text.length) {
+    if (inBlockComment) {
+      const end = text.indexOf("*/", index);
+      if (end < 0) {
+        return { hasCode, endsInBlockComment: true };
+      }
+      inBlockComment = false;
+      index = end + 2;
+      continue;
+    }
+
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (text.startsWith("//", index)) {
+      break;
+    } else if (text.startsWith("/*", index)) {
+      inBlockComment = true;
+      index += 2;
+    } else if (char === "#" && !hasCode && text.substring(0, index).trim() === "") {
+      // Preprocessor lines (`#:`, `#if`, `#nullable`, ...) are not code
+      break;
+    } else if (char === "\"" || char === "'") {
+      hasCode = true;
+      index = skipLiteral(text, index);
+    } else {
+      hasCode = true;
+      index++;
+    }
+  }
+  return { hasCode, endsInBlockComment: inBlockComment };
+}
+
+function skipLiteral(text: string, start: number): number {
+  const quote = text[start];
+  let index = start + 1;
+  while (index < text.length && text[index] !== quote) {
+    index += text[index] === "\\" ? 2 : 1;
+  }
+  return index + 1;
+}
+
+/**
+ * Parses a single line, or returns undefined when it is not a directive.
+ * Incomplete input (such as the text before the cursor) parses into the
+ * tokens typed so far, which is what completion relies on.
+ */
+export function parseDirectiveLine(lineText: string, line = 0): Directive | undefined {
+  const match = lineText.match(/^(\s*)#:(\S*)(\s*)(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, indent, keywordText, separator, content] = match;
+  const start = indent.length;
+  const keyword = token(keywordText, start + 2);
+  const argumentStart = keyword.end + separator.length;
+  const argument = separator ? token(content.trimEnd(), argumentStart) : undefined;
+
+  const base = {
+    line,
+    start,
+    end: argument && argument.text ? argument.end : keyword.end,
+    keyword,
+    argument,
+    errors: [] as ParseError[]
+  };
+  const error = (code: ParseErrorCode, message: string, errorStart: number, errorEnd: number) =>
+    base.errors.push({ code, message, start: errorStart, end: errorEnd });
+
+  const kind = DIRECTIVE_KINDS.find(k => k === keywordText);
+  if (!kind) {
+    error(
+      "unknown-directive",
+      `Unknown directive '#:${keywordText}'. Expected one of: ${DIRECTIVE_KINDS.map(d => `#:${d}`).join(", ")}.`,
+      start,
+      keyword.end
+    );
+    return { ...base, kind: "unknown" };
+  }
+
+  if (!argument || !argument.text) {
+    error("invalid-syntax", `'#:${kind}' directive requires a value.`, start, base.end);
+    if (!argument) {
+      return { ...base, kind } as Directive;
+    }
+  }
+
+  switch (kind) {
+    case "package":
+    case "sdk": {
+      const [, nameText, versionText] = content.match(/^([^@\s]*)(?:@(\S*))?/)!;
+      const name = token(nameText, argumentStart);
+      const version = versionText !== undefined ? token(versionText, name.end + 1) : undefined;
+
+      if (argument.text) {
+        const [id, ...rest] = argument.text.split("@");
+        const label = kind === "package" ? "package" : "SDK";
+        const expected = kind === "package" ? "'#:package Id@Version'" : "'#:sdk Name' or '#:sdk Name@Version'";
+        if (!PACKAGE_ID_PATTERN.test(id) || rest.length > 1 || /\s/.test(argument.text) ||
+          (kind === "sdk" && rest.length === 1 && !rest[0])) {
+          error("invalid-syntax", `Invalid ${label} reference '${argument.text}'. Expected ${expected}.`, argument.start, argument.end);
+        } else if (rest.length === 1 && !rest[0]) {
+          error("invalid-syntax", `Missing version after '@' for package '${id}'.`, argument.start, argument.end);
+        }
+      }
+      return kind === "package"
+        ? { ...base, kind, id: name, version }
+        : { ...base, kind, name, version };
+    }
+
+    case "property": {
+      // Both `Name Value` and `Name=Value` are accepted
+      const propertyMatch = content.match(/^([^\s=]*)(\s*=\s*|\s+)?(.*)$/)!;
+      const [, nameText, valueSeparator, valueText] = propertyMatch;
+      const name = token(nameText, argumentStart);
+      const value = valueSeparator !== undefined
+        ? token(valueText.trimEnd(), name.end + valueSeparator.length)
+        : undefined;
+
+      if (argument.text && (!PROPERTY_NAME_PATTERN.test(nameText) || !value?.text)) {
+        error("invalid-syntax", `Invalid property '${argument.text}'. Expected '#:property Name=Value'.`, argument.start, argument.end);
+      }
+      return { ...base, kind, name, value };
+    }
+
+    case "project":
+      return { ...base, kind, path: argument.text ? argument : undefined };
+  }
+}
+
+/**
+ * Identifies what a directive declares, so that two directives with the same
+ * key are duplicates: package and SDK ids and property names compare
+ * case-insensitively, project paths ignore the separator style.
+ */
+export function directiveKey(directive: Directive): string | undefined {
+  switch (directive.kind) {
+    case "package":
+      return directive.id && `package:${directive.id.text.toLowerCase()}`;
+    case "sdk":
+      return directive.name && `sdk:${directive.name.text.toLowerCase()}`;
+    case "property":
+      return directive.name && `property:${directive.name.text.toLowerCase()}`;
+    case "project":
+      return directive.path && `project:${directive.path.text.replace(/\\/g, "/").replace(/\/$/, "").toLowerCase()}`;
+    default:
+      return undefined;
+  }
+}
+
+/** Groups of two or more valid directives declaring the same package, SDK, property or project. */
+export function groupDuplicateDirectives(directives: Directive[]): Directive[][] {
+  const groups = new Map<string, Directive[]>();
+  for (const directive of directives) {
+    const key = directive.errors.length === 0 ? directiveKey(directive) : undefined;
+    if (key) {
+      groups.set(key, [...(groups.get(key) ?? []), directive]);
+    }
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+export function directiveVersion(directive: Directive): string | undefined {
+  return directive.kind === "package" || directive.kind === "sdk" ? directive.version?.text : undefined;
+}
+
+/**
+ * Line at which to insert a new directive: after the last directive of the
+ * same kind that is in place before the code, else after the last such
+ * directive of any kind, else after the shebang.
+ */
+export function findDirectiveInsertLine(parsed: DirectiveDocument, kind?: DirectiveKind): number {
+  const placed = parsed.directives.filter(d => parsed.firstCodeLine === undefined || d.line < parsed.firstCodeLine);
+  const sameKind = placed.filter(d => d.kind === kind);
+  const anchors = sameKind.length > 0 ? sameKind : placed;
+  return anchors.length > 0 ? anchors[anchors.length - 1].line + 1 : parsed.hasShebang ? 1 : 0;
+}
+
+/** The innermost token of the directive that contains the column, if any. */
+export function tokenAt(directive: Directive, column: number): Token | undefined {
+  const candidates: Array<Token | undefined> = [directive.keyword];
+  switch (directive.kind) {
+    case "package":
+      candidates.push(directive.id, directive.version);
+      break;
+    case "sdk":
+    case "property":
+      candidates.push(directive.name, directive.kind === "sdk" ? directive.version : directive.value);
+      break;
+    case "project":
+      candidates.push(directive.path);
+      break;
+  }
+  return candidates.find(candidate => candidate && candidate.start <= column && column <= candidate.end);
+}
+
+function token(text: string, start: number): Token {
+  return { text, start, end: start + text.length };
+}
@@ -0,0 +1,97 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { Directive, DirectiveKind, parseDirectives } from "./directiveParser";
+import { WorkspaceDirectiveIndex } from "./workspaceDirectives";
+
+const SYMBOL_KINDS: Record<DirectiveKind, vscode.SymbolKind> = {
+  package: vscode.SymbolKind.Package,
+  sdk: vscode.SymbolKind.Module,
+  property: vscode.SymbolKind.Property,
+  project: vscode.SymbolKind.File
+};
+
+/** Outline entries for the directive header, grouped under one "Directives" node. */
+export class DirectiveDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const symbols = parseDirectives(document.getText()).directives.flatMap(directive => {
+      const name = symbolName(directive);
+      if (!name) {
+        return [];
+      }
+      const range = new vscode.Range(directive.line, directive.start, directive.line, directive.end);
+      const argument = directive.argument
+        ? new vscode.Range(directive.line, directive.argument.start, directive.line, directive.argument.end)
+        : range;
+      return [new vscode.DocumentSymbol(name, symbolDetail(directive), SYMBOL_KINDS[directive.kind as DirectiveKind], range, argument)];
+    });
+    if (symbols.length === 0) {
+      return [];
+    }
+
+    const header = new vscode.DocumentSymbol(
+      "Directives",
+      "",
+      vscode.SymbolKind.Namespace,
+      new vscode.Range(symbols[0].range.start, symbols[symbols.length - 1].range.end),
+      symbols[0].range
+    );
+    header.children = symbols;
+    return [header];
+  }
+}
+
+/**
+ * Finds directives across the workspace, e.g. `Newtonsoft.Json` lists every
+ * script referencing the package along with its version.
+ */
+export class DirectiveWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+  constructor(private readonly index: WorkspaceDirectiveIndex) {}
+
+  async provideWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+    const needle = query.trim().toLowerCase();
+    const symbols: vscode.SymbolInformation[] = [];
+    for (const file of await this.index.getFiles()) {
+      for (const directive of file.directives) {
+        const name = symbolName(directive);
+        if (!name || !name.toLowerCase().includes(needle)) {
+          continue;
+        }
+        const detail = symbolDetail(directive);
+        symbols.push(new vscode.SymbolInformation(
+          detail ? `${name} ${detail}` : name,
+          SYMBOL_KINDS[directive.kind as DirectiveKind],
+          vscode.workspace.asRelativePath(file.uri) || path.basename(file.uri.fsPath),
+          new vscode.Location(file.uri, new vscode.Range(directive.line, directive.start, directive.line, directive.end))
+        ));
+      }
+    }
+    return symbols;
+  }
+}
+
+/** Package or SDK id, property name or project path; undefined for directives missing it. */
+function symbolName(directive: Directive): string | undefined {
+  switch (directive.kind) {
+    case "package":
+      return directive.id?.text;
+    case "sdk":
+    case "property":
+      return directive.name?.text;
+    case "project":
+      return directive.path?.text;
+    default:
+      return undefined;
+  }
+}
+
+function symbolDetail(directive: Directive): string {
+  switch (directive.kind) {
+    case "package":
+    case "sdk":
+      return directive.version?.text ?? "";
+    case "property":
+      return directive.value?.text ?? "";
+    default:
+      return "";
+  }
+}
@@ -1,141 +1,78 @@
+import * as fs from "fs";
+import * as path from "path";
 import * as vscode from "vscode";
-import axios from "axios";
-
-interface NuGetPackage {
-  id: string;
-  version: string;
-  description?: string;
-  totalDownloads?: number;
-}
-
-interface NuGetSearchResult {
-  data: Array<{
-    id: string;
-    version: string;
-    description?: string;
-    totalDownloads?: number;
-    versions?: Array<{ version: string }>;
-  }>;
-}
-
-interface SdkInfo {
-  id: string;
-  displayName: string;
-  description: string;
-  defaultTargetFramework?: string;
-}
-
-interface PropertyInfo {
-  name: string;
-  description: string;
-  possibleValues?: string[];
-  defaultValue?: string;
-}
+import { CentralPackageService, CentralPackageVersion } from "./centralPackages";
+import { DependencyTreeProvider } from "./dependencyTree";
+import { DirectiveDiagnosticsProvider } from "./diagnostics";
+import { DirectiveFixCodeActionProvider } from "./directiveFixes";
+import {
+  appliesToSdks,
+  DirectiveMetadataRegistry,
+  getActiveSdkIds,
+  MSBUILD_SDK_PACKAGE_TYPE
+} from "./directiveMetadata";
+import { PropertyInfo } from "./directiveInfo";
+import {
+  PackageDirective,
+  parseDirectiveLine,
+  parseDirectives,
+  ProjectDirective,
+  PropertyDirective,
+  SdkDirective,
+  Token,
+  tokenAt
+} from "./directiveParser";
+import { DirectiveDocumentSymbolProvider, DirectiveWorkspaceSymbolProvider } from "./directiveSymbols";
+import { NuGetPackage, RegistrationCatalogEntry } from "./feedClient";
+import { FILE_TASK_TYPE, FileTaskProvider, registerFileTaskCommands } from "./fileTasks";
+import { MetadataCache } from "./metadataCache";
+import { NUGET_ORG_SOURCE } from "./nugetConfig";
+import { PackageCodeLensProvider } from "./packageCodeLens";
+import {
+  appendPackageHealth,
+  appendPackageLicense,
+  describeDeprecation,
+  describeLicenseViolation,
+  describeVulnerabilities,
+  getLicensePolicy
+} from "./packageHealth";
+import { PackageSourceService } from "./packageSources";
+import { PackageSuggestionCodeActionProvider } from "./packageSuggestions";
+import {
+  findProjectFiles,
+  isProjectFile,
+  ProjectReferenceLinkProvider,
+  readProjectInfo,
+  resolveProjectReference
+} from "./projectReferences";
+import { PackageUpdateCodeActionProvider, registerPackageUpdateCommands } from "./packageUpdates";
+import { registerProjectConversionCommands } from "./projectConversion";
+import { describeValueType, getValueType, suggestPropertyValues } from "./propertyValues";
+import { abortSignalFromToken, debounce, isCancellation, RequestScheduler } from "./requestScheduler";
+import { getCompletionSettings, getTriggerCharacters, isHoverEnabled, RankingMode, SETTINGS_SECTION } from "./settings";
+import { parseTargetFramework, supportsFramework } from "./targetFrameworks";
+import { compareVersions, isPrerelease, normalizeVersion } from "./versions";
+import { WorkspaceDirectiveIndex } from "./workspaceDirectives";
+import { WorkspacePackageReportProvider } from "./workspaceReport";
+
+// Wait for a pause in typing before searching, so each keystroke doesn't hit the feed
+const SEARCH_DEBOUNCE_DELAY = 200;
+// Concurrent HTTP requests across all feeds
+const MAX_CONCURRENT_REQUESTS = 4;
 
 class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
-  private packageCache = new Map<string, NuGetPackage[]>();
-  private cacheExpiry = new Map<string, number>();
-   // 5 minutes
-  private readonly CACHE_DURATION = 5 * 60 * 1000;
-
-  // Common .NET SDKs
-  private readonly COMMON_SDKS: SdkInfo[] = [
-    {
-      id: "Microsoft.NET.Sdk",
-      displayName: "Console/Library SDK",
-      description: "Default SDK for console applications and class libraries",
-      defaultTargetFramework: "net10.0"
-    },
-    {
-      id: "Microsoft.NET.Sdk.Web",
-      displayName: "Web SDK",
-      description: "SDK for ASP.NET Core applications, Web APIs, and Blazor apps"
-    },
-    {
-      id: "Microsoft.NET.Sdk.Worker",
-      displayName: "Worker SDK",
-      description: "SDK for background service applications and hosted services"
-    },
-    {
-      id: "Microsoft.NET.Sdk.WindowsDesktop",
-      displayName: "Windows Desktop SDK",
-      description: "SDK for WPF and Windows Forms applications"
-    },
-    {
-      id: "Microsoft.NET.Sdk.Razor",
-      displayName: "Razor SDK",
-      description: "SDK for Razor class libraries and components"
-    },
-    {
-      id: "Microsoft.NET.Sdk.BlazorWebAssembly",
-      displayName: "Blazor WebAssembly SDK",
-      description: "SDK for Blazor WebAssembly applications"
-    }
-  ];
-
-  // Common MSBuild properties for file-based apps
-  private readonly COMMON_PROPERTIES: PropertyInfo[] = [
-    {
-      name: "LangVersion",
-      description: "C# language version to use",
-      possibleValues: ["latest", "preview", "12", "11", "10", "9", "8", "7.3", "7.2", "7.1", "7"],
-      defaultValue: "latest"
-    },
-    {
-      name: "TargetFramework",
-      description: "Target framework for the application",
-      possibleValues: ["net10.0", "net9.0", "net8.0", "net7.0", "net6.0", "netstandard2.1", "netstandard2.0"],
-      defaultValue: "net10.0"
-    },
-    {
-      name: "Nullable",
-      description: "Nullable reference types setting",
-      possibleValues: ["enable", "disable", "warnings", "annotations"],
-      defaultValue: "enable"
-    },
-    {
-      name: "ImplicitUsings",
-      description: "Enable implicit using statements",
-      possibleValues: ["enable", "disable"],
-      defaultValue: "enable"
-    },
-    {
-      name: "TreatWarningsAsErrors",
-      description: "Treat compiler warnings as errors",
-      possibleValues: ["true", "false"],
-      defaultValue: "false"
-    },
-    {
-      name: "WarningLevel",
-      description: "Compiler warning level",
-      possibleValues: ["0", "1", "2", "3", "4", "5"],
-      defaultValue: "4"
-    },
-    {
-      name: "OutputType",
-      description: "Type of output to generate",
-      possibleValues: ["Exe", "Library", "Module", "Winexe"],
-      defaultValue: "Exe"
-    },
-    {
-      name: "PublishAot",
-      description: "Enable ahead-of-time compilation for publishing",
-      possibleValues: ["true", "false"],
-      defaultValue: "false"
-    },
-    {
-      name: "InvariantGlobalization",
-      description: "Enable invariant globalization mode",
-      possibleValues: ["true", "false"],
-      defaultValue: "false"
-    },
-    {
-      name: "EnablePreviewFeatures",
-      description: "Enable preview language and runtime features",
-      possibleValues: ["true", "false"],
-      defaultValue: "false"
-    }
-  ];
+  // Package behind each item, so vulnerability details can be fetched lazily on resolve
+  // Version items also carry the file's framework, checked once the item is resolved
+  private resolvablePackages = new WeakMap<
+    vscode.CompletionItem,
+    { uri: vscode.Uri; pkg: NuGetPackage; targetFramework?: string }
+  >();
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {}
 
   async provideCompletionItems(
     document: vscode.TextDocument,
@@ -147,44 +84,94 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
       .lineAt(position)
       .text.substring(0, position.character);
 
-    // Check for different directive types
-    const packageMatch = linePrefix.match(/^#:package\s+([^@\s]*)/);
-    const packageVersionMatch = linePrefix.match(/^#:package\s+(\w+(?:\.\w+)*)@(.*)$/);
-    const sdkMatch = linePrefix.match(/^#:sdk\s+(.*)$/);
-    const propertyMatch = linePrefix.match(/^#:property\s+(\w*)\s*(.*)$/);
-
-    // Handle #:package directives
-    if (packageMatch) {
-      if (packageVersionMatch) {
-        const [, packageId, versionPrefix] = packageVersionMatch;
-        return this.getVersionCompletions(packageId, versionPrefix);
-      }
-      return this.getPackageCompletions(packageMatch[1] || "");
+    // The text before the cursor parses into the tokens typed so far
+    const directive = parseDirectiveLine(linePrefix, position.line);
+    if (!directive) {
+      return [];
     }
 
-    // Handle #:sdk directives
-    if (sdkMatch) {
-      return this.getSdkCompletions(sdkMatch[1]);
+    // Still typing the directive name
+    if (!directive.argument) {
+      return this.getDirectiveCompletions(directive.keyword.text);
     }
-
-    // Handle #:property directives
-    if (propertyMatch) {
-      const [, propertyName, propertyValue] = propertyMatch;
-      if (propertyName && propertyValue !== undefined) {
-        return this.getPropertyValueCompletions(propertyName, propertyValue);
-      }
-      return this.getPropertyNameCompletions(propertyName || "");
+    if (directive.kind !== "unknown" && !getCompletionSettings(document.uri).enabled[directive.kind]) {
+      return [];
     }
 
-    // Check if we're starting a new directive
-    const directivePrefix = linePrefix.match(/^#:(\w*)$/);
-    if (directivePrefix) {
-      return this.getDirectiveCompletions(directivePrefix[1]);
+    // Aborts the feed requests once VS Code moves on to a newer completion request
+    const signal = abortSignalFromToken(token);
+    switch (directive.kind) {
+      case "package":
+        if (directive.version) {
+          const targetFramework = this.metadata.getTargetFramework(parseDirectives(document.getText()).directives, document.uri);
+          return this.getVersionCompletions(document, directive.id?.text ?? "", directive.version.text, signal, targetFramework);
+        }
+        return this.getPackageCompletions(document, directive.id?.text ?? "", signal);
+
+      case "sdk":
+        // Project SDKs from NuGet are versioned like packages
+        if (directive.version) {
+          return this.getVersionCompletions(document, directive.name?.text ?? "", directive.version.text, signal);
+        }
+        return this.getSdkCompletions(document, directive.name?.text ?? "", signal);
+
+      case "property":
+        if (directive.name && directive.value) {
+          return this.getPropertyValueCompletions(document, position, directive.name.text, directive.value);
+        }
+        return this.getPropertyNameCompletions(document, directive.name?.text ?? "");
+
+      case "project":
+        // Untrimmed, so a path being typed can end in a space
+        return this.getProjectPathCompletions(document, position, linePrefix.substring(directive.argument.start));
     }
 
     return [];
   }
 
+  async resolveCompletionItem(
+    item: vscode.CompletionItem,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CompletionItem> {
+    const resolvable = this.resolvablePackages.get(item);
+    if (!resolvable || !resolvable.pkg.version) {
+      return item;
+    }
+
+    try {
+      const { uri, pkg, targetFramework } = resolvable;
+      const entry = await this.packageSources.getCatalogEntry(
+        uri,
+        pkg.id,
+        pkg.version,
+        abortSignalFromToken(token)
+      );
+      if (!entry) {
+        return item;
+      }
+      // Always re-rendered: the license is only in the registration metadata
+      item.documentation = this.createPackageDocumentation(pkg, entry);
+      const framework = targetFramework ? parseTargetFramework(targetFramework) : undefined;
+      const warning = describeVulnerabilities(entry)
+        ? "Vulnerable"
+        : describeDeprecation(entry)
+          ? "Deprecated"
+          : describeLicenseViolation(entry, getLicensePolicy(uri))
+            ? "License not allowed"
+            : framework && supportsFramework(entry.dependencyGroups ?? [], framework) === false
+              ? `Not compatible with ${targetFramework}`
+              : undefined;
+      if (warning) {
+        item.detail = `⚠️ ${warning} • ${item.detail}`;
+      }
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error(`Failed to resolve package details for ${resolvable.pkg.id}:`, error);
+      }
+    }
+    return item;
+  }
+
   private getDirectiveCompletions(prefix: string): vscode.CompletionItem[] {
     const directives = [
       {
@@ -201,6 +188,11 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
         name: "property",
         description: "Set MSBuild properties",
         example: "#:property LangVersion preview"
+      },
+      {
+        name: "project",
+        description: "Reference another project",
+        example: "#:project ../Lib/Lib.csproj"
       }
     ];
 
@@ -220,9 +212,43 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
       });
   }
 
-  private getSdkCompletions(query: string): vscode.CompletionItem[] {
-    return this.COMMON_SDKS
-      .filter(sdk => sdk.id.toLowerCase().includes(query.toLowerCase()))
+  private async getSdkCompletions(
+    document: vscode.TextDocument,
+    query: string,
+    signal?: AbortSignal
+  ): Promise<vscode.CompletionItem[]> {
+    let feedSdks: NuGetPackage[] = [];
+    try {
+      await debounce(SEARCH_DEBOUNCE_DELAY, signal);
+      const settings = getCompletionSettings(document.uri);
+      feedSdks = await this.packageSources.searchPackages(
+        document.uri,
+        query,
+        settings.searchResults,
+        settings.includePrerelease,
+        signal,
+        MSBUILD_SDK_PACKAGE_TYPE
+      );
+    } catch (error) {
+      if (isCancellation(error)) {
+        return [];
+      }
+      console.error(`Failed to search SDK packages for "${query}":`, error);
+    }
+
+    const ranking = getCompletionSettings(document.uri).ranking;
+    const feedItems = feedSdks.map((pkg, index) => {
+      const item = this.createPackageCompletionItem(pkg, ranking, index);
+      // Known SDKs first, then feed SDKs by popularity
+      item.sortText = `1${item.sortText}`;
+      this.resolvablePackages.set(item, { uri: document.uri, pkg });
+      return item;
+    });
+    // A feed result carries a version to insert, so it replaces the known entry
+    const feedIds = new Set(feedSdks.map(pkg => pkg.id.toLowerCase()));
+
+    const knownItems = this.metadata.getSdks(document.uri)
+      .filter(sdk => sdk.id.toLowerCase().includes(query.toLowerCase()) && !feedIds.has(sdk.id.toLowerCase()))
       .map(sdk => {
         const item = new vscode.CompletionItem(
           sdk.id,
@@ -230,6 +256,7 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
         );
         item.insertText = sdk.id;
         item.detail = sdk.displayName;
+        item.sortText = `0${sdk.id}`;
 
         const markdown = new vscode.MarkdownString();
         markdown.appendMarkdown(`**${sdk.displayName}**\n\n`);
@@ -244,10 +271,62 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
         item.documentation = markdown;
         return item;
       });
+
+    return [...knownItems, ...feedItems];
   }
 
-  private getPropertyNameCompletions(query: string): vscode.CompletionItem[] {
-    return this.COMMON_PROPERTIES
+  private getProjectPathCompletions(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    typedPath: string
+  ): vscode.CompletionItem[] {
+    if (document.uri.scheme !== "file") {
+      return [];
+    }
+
+    // Complete the last path segment, relative to the directory typed so far
+    const separatorIndex = Math.max(typedPath.lastIndexOf("/"), typedPath.lastIndexOf("\\"));
+    const directoryPart = typedPath.substring(0, separatorIndex + 1);
+    const segment = typedPath.substring(separatorIndex + 1);
+    const directory = path.resolve(path.dirname(document.uri.fsPath), directoryPart.replace(/\\/g, "/"));
+    const range = new vscode.Range(position.translate(0, -segment.length), position);
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const items: vscode.CompletionItem[] = [];
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      if (entry.isFile() && isProjectFile(entry.name)) {
+        const item = new vscode.CompletionItem(entry.name, vscode.CompletionItemKind.File);
+        item.range = range;
+        item.detail = "Project file";
+        items.push(item);
+      } else if (entry.isDirectory()) {
+        const projects = findProjectFiles(path.join(directory, entry.name));
+        if (projects.length === 0) {
+          continue;
+        }
+        const item = new vscode.CompletionItem(`${entry.name}/`, vscode.CompletionItemKind.Folder);
+        item.range = range;
+        item.detail = `Contains ${projects.join(", ")}`;
+        // Keep completing inside the directory
+        item.command = { command: "editor.action.triggerSuggest", title: "Re-trigger completions" };
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  private getPropertyNameCompletions(document: vscode.TextDocument, query: string): vscode.CompletionItem[] {
+    const sdkIds = getActiveSdkIds(parseDirectives(document.getText()).directives);
+    return this.metadata.getProperties(document.uri)
       .filter(prop => prop.name.toLowerCase().includes(query.toLowerCase()))
       .map(property => {
         const item = new vscode.CompletionItem(
@@ -257,233 +336,291 @@ class DirectiveCompletionProvider implements vscode.CompletionItemProvider {
         item.insertText = `${property.name} `;
         item.detail = property.description;
 
+        // Properties of other SDKs stay available, but after the ones this file can use
+        const applies = appliesToSdks(property, sdkIds);
+        item.sortText = `${applies ? "0" : "1"}${property.name}`;
+        if (!applies) {
+          item.detail += ` • ${property.sdks!.join(", ")} only`;
+        }
+
         const markdown = new vscode.MarkdownString();
         markdown.appendMarkdown(`**${property.name}**\n\n`);
         markdown.appendMarkdown(`${property.description}\n\n`);
-        if (property.defaultValue) {
-          markdown.appendMarkdown(`Default: \`${property.defaultValue}\`\n\n`);
-        }
-        if (property.possibleValues) {
-          markdown.appendMarkdown(`Possible values: ${property.possibleValues.map(v => `\`${v}\``).join(", ")}\n\n`);
-        }
+        appendPropertyValues(markdown, property);
 
         item.documentation = markdown;
         return item;
       });
   }
 
-  private getPropertyValueCompletions(propertyName: string, valuePrefix: string): vscode.CompletionItem[] {
-    const property = this.COMMON_PROPERTIES.find(p => p.name === propertyName);
-    if (!property || !property.possibleValues) {
+  private getPropertyValueCompletions(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    propertyName: string,
+    value: Token
+  ): vscode.CompletionItem[] {
+    const property = this.metadata.findProperty(propertyName, document.uri);
+    if (!property) {
       return [];
     }
 
-    return property.possibleValues
-      .filter(value => value.toLowerCase().startsWith(valuePrefix.toLowerCase()))
-      .map(value => {
-        const item = new vscode.CompletionItem(
-          value,
-          vscode.CompletionItemKind.Value
-        );
-        item.insertText = value;
-        item.detail = `${propertyName} value`;
-        if (value === property.defaultValue) {
-          item.detail += " (default)";
-        }
-        return item;
-      });
+    // List items are completed one at a time, after the last `;`
+    const { prefix, values } = suggestPropertyValues(property, value.text);
+    const range = new vscode.Range(position.line, value.end - prefix.length, position.line, position.character);
+    return values.map(suggestion => {
+      const item = new vscode.CompletionItem(
+        suggestion,
+        vscode.CompletionItemKind.Value
+      );
+      item.insertText = suggestion;
+      item.range = range;
+      item.detail = `${propertyName} value`;
+      if (suggestion === property.defaultValue) {
+        item.detail += " (default)";
+      }
+      return item;
+    });
   }
 
-  private async getPackageCompletions(query: string): Promise<vscode.CompletionItem[]> {
+  private async getPackageCompletions(
+    document: vscode.TextDocument,
+    query: string,
+    signal?: AbortSignal
+  ): Promise<vscode.CompletionItem[]> {
     if (!query) {
       return [];
     }
 
     try {
-      const packages = await this.searchPackages(query);
-      return packages.map((pkg) => this.createPackageCompletionItem(pkg));
+      await debounce(SEARCH_DEBOUNCE_DELAY, signal);
+      const packages = await this.searchPackages(document, query, signal);
+      const ranking = getCompletionSettings(document.uri).ranking;
+      return packages.map((pkg, index) => {
+        const item = this.createPackageCompletionItem(
+          pkg,
+          ranking,
+          index,
+          this.centralPackages.getCentralVersion(document.uri, pkg.id)
+        );
+        this.resolvablePackages.set(item, { uri: document.uri, pkg });
+        return item;
+      });
     } catch (error) {
-      console.error("Error fetching packages:", error);
+      if (!isCancellation(error)) {
+        console.error("Error fetching packages:", error);
+      }
       return [];
     }
   }
 
   private async getVersionCompletions(
+    document: vscode.TextDocument,
     packageId: string,
-    versionPrefix: string
+    versionPrefix: string,
+    signal?: AbortSignal,
+    targetFramework?: string
   ): Promise<vscode.CompletionItem[]> {
     try {
-      const response = await axios.get(
-        `https://api.nuget.org/v3-flatcontainer/${packageId.toLowerCase()}/index.json`,
-        { timeout: 5000 }
+      const versions = await this.packageSources.getVersions(document.uri, packageId, signal);
+      const localVersions = new Set(
+        this.packageSources.getLocalVersions(document.uri, packageId).map(normalizeVersion)
       );
 
-      const versions: string[] = response.data.versions || [];
-
+      // Typing a prerelease label (e.g. `@10.0.0-`) opts in for this completion only
+      const settings = getCompletionSettings(document.uri);
+      const includePrerelease = settings.includePrerelease || versionPrefix.includes("-");
       const filteredVersions = versions
-        .filter((v) => !v.includes("-") && v.startsWith(versionPrefix))
-        .sort((a, b) => this.compareVersions(b, a))
-        .slice(0, 10);
+        .filter((v) => (includePrerelease || !isPrerelease(v)) &&
+          v.toLowerCase().startsWith(versionPrefix.toLowerCase()))
+        .sort((a, b) => compareVersions(b, a))
+        .slice(0, settings.versionResults);
+
+      // The centrally pinned version comes first, even if it is not the newest
+      const central = this.centralPackages.getCentralVersion(document.uri, packageId);
+      if (central && central.version.toLowerCase().startsWith(versionPrefix.toLowerCase())) {
+        const pinned = normalizeVersion(central.version);
+        filteredVersions.splice(0, filteredVersions.length, central.version,
+          ...filteredVersions.filter(v => normalizeVersion(v) !== pinned));
+      }
 
-      return filteredVersions.map((version) => {
+      return filteredVersions.map((version, index) => {
         const item = new vscode.CompletionItem(
           version,
           vscode.CompletionItemKind.Value
         );
         item.insertText = version;
-        item.detail = `Version ${version}`;
-        item.sortText = version.padStart(20, "0");
+        item.detail = isPrerelease(version) ? `Prerelease version ${version}` : `Version ${version}`;
+        if (central && version === central.version) {
+          item.detail += ` • pinned in ${path.basename(central.file)}`;
+        }
+        if (localVersions.has(normalizeVersion(version))) {
+          item.detail += " • installed locally";
+        }
+        // Newest first, in NuGet version order rather than text order
+        item.sortText = String(index).padStart(4, "0");
+        // Framework compatibility needs registration metadata, so it is only checked on resolve
+        this.resolvablePackages.set(item, { uri: document.uri, pkg: { id: packageId, version }, targetFramework });
         return item;
       });
     } catch (error) {
-      console.error(`Failed to get versions for ${packageId}:`, error);
-      return [];
-    }
-  }
-
-  private compareVersions(a: string, b: string): number {
-    const partsA = a.split(".").map(Number);
-    const partsB = b.split(".").map(Number);
-
-    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
-      const partA = partsA[i] || 0;
-      const partB = partsB[i] || 0;
-
-      if (partA !== partB) {
-        return partA - partB;
+      if (!isCancellation(error)) {
+        console.error(`Failed to get versions for ${packageId}:`, error);
       }
+      return [];
     }
-    return 0;
   }
 
-  private async searchPackages(query: string): Promise<NuGetPackage[]> {
-    const cacheKey = query.toLowerCase();
-    const now = Date.now();
-
-    if (
-      this.packageCache.has(cacheKey) &&
-      this.cacheExpiry.has(cacheKey) &&
-      this.cacheExpiry.get(cacheKey)! > now
-    ) {
-      return this.packageCache.get(cacheKey)!;
-    }
-
+  private async searchPackages(
+    document: vscode.TextDocument,
+    query: string,
+    signal?: AbortSignal
+  ): Promise<NuGetPackage[]> {
+    // Responses are cached on disk by the feed layer, per feed and query
     try {
-      const response = await axios.get<NuGetSearchResult>(
-        `https://azuresearch-usnc.nuget.org/query`,
-        {
-          params: {
-            q: query,
-            take: 20,
-            prerelease: false,
-          },
-          timeout: 5000,
-        }
+      const settings = getCompletionSettings(document.uri);
+      return await this.packageSources.searchPackages(
+        document.uri,
+        query,
+        settings.searchResults,
+        settings.includePrerelease,
+        signal
       );
-
-      const packages: NuGetPackage[] = response.data.data.map((item) => ({
-        id: item.id,
-        version: item.version,
-        description: item.description,
-        totalDownloads: item.totalDownloads,
-      }));
-
-      this.packageCache.set(cacheKey, packages);
-      this.cacheExpiry.set(cacheKey, now + this.CACHE_DURATION);
-
-      return packages;
     } catch (error) {
+      if (isCancellation(error)) {
+        throw error;
+      }
       console.error(`Failed to search packages for "${query}":`, error);
       return [];
     }
   }
 
-  private createPackageCompletionItem(pkg: NuGetPackage): vscode.CompletionItem {
+  /** `index` is the package's position in the merged search results, used by relevance ranking. */
+  private createPackageCompletionItem(
+    pkg: NuGetPackage,
+    ranking: RankingMode,
+    index: number,
+    central?: CentralPackageVersion
+  ): vscode.CompletionItem {
     const item = new vscode.CompletionItem(
       pkg.id,
       vscode.CompletionItemKind.Module
     );
 
-    item.insertText = `${pkg.id}@${pkg.version}`;
+    // Centrally pinned packages get the bare id so the pin applies; autocomplete-only
+    // feeds return ids without a version, so let version completion take over
+    const version = central?.version ?? pkg.version;
+    if (central) {
+      item.insertText = pkg.id;
+    } else {
+      item.insertText = version ? `${pkg.id}@${version}` : `${pkg.id}@`;
+    }
+    item.documentation = this.createPackageDocumentation(pkg);
+
+    // Centrally pinned and locally installed packages rank above remote-only ones,
+    // then by popularity or in the order the feeds returned them
+    const rank = ranking === "relevance"
+      ? String(index).padStart(16, "0")
+      : pkg.totalDownloads
+        ? String(Number.MAX_SAFE_INTEGER - pkg.totalDownloads).padStart(16, "0")
+        : "9".repeat(16);
+    item.sortText = `${central ? "0" : pkg.installedLocally ? "1" : "2"}${rank}`;
+
+    item.detail = `${version ? `v${version}` : pkg.id}${
+      central ? ` • pinned in ${path.basename(central.file)}` : ""
+    }${
+      pkg.totalDownloads
+        ? ` • ${pkg.totalDownloads.toLocaleString()} downloads`
+        : ""
+    }${pkg.installedLocally ? " • installed locally" : ""}`;
 
+    return item;
+  }
+
+  private createPackageDocumentation(
+    pkg: NuGetPackage,
+    entry?: RegistrationCatalogEntry
+  ): vscode.MarkdownString {
     const markdown = new vscode.MarkdownString();
     markdown.appendMarkdown(`**${pkg.id}**\n\n`);
     if (pkg.description) {
       markdown.appendMarkdown(`${pkg.description}\n\n`);
     }
-    markdown.appendMarkdown(`Version: \`${pkg.version}\`\n\n`);
+    if (pkg.version) {
+      markdown.appendMarkdown(`Version: \`${pkg.version}\`\n\n`);
+    }
     if (pkg.totalDownloads) {
       markdown.appendMarkdown(
         `Downloads: ${pkg.totalDownloads.toLocaleString()}\n\n`
       );
     }
+    if (pkg.source && pkg.source !== NUGET_ORG_SOURCE.name) {
+      markdown.appendMarkdown(`Source: ${pkg.source}\n\n`);
+    }
+    if (pkg.installedLocally) {
+      markdown.appendMarkdown(`Installed locally\n\n`);
+    }
+    if (entry) {
+      appendPackageLicense(markdown, entry);
+      appendPackageHealth(markdown, entry);
+    }
     markdown.appendMarkdown(
       `[View on NuGet](https://www.nuget.org/packages/${pkg.id})`
     );
 
-    item.documentation = markdown;
-
-    item.sortText = pkg.totalDownloads
-      ? String(999999999 - pkg.totalDownloads).padStart(10, "0")
-      : "9999999999";
-
-    item.detail = `v${pkg.version}${
-      pkg.totalDownloads
-        ? ` • ${pkg.totalDownloads.toLocaleString()} downloads`
-        : ""
-    }`;
-
-    return item;
+    return markdown;
   }
 }
 
 class DirectiveHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {}
+
   async provideHover(
     document: vscode.TextDocument,
     position: vscode.Position,
     token: vscode.CancellationToken
   ): Promise<vscode.Hover | undefined> {
-    const line = document.lineAt(position);
-    
-    // Check for package directive
-    const packageMatch = line.text.match(/^#:package\s+(\w+(?:\.\w+)*)@?([\d\.]*)/);
-    if (packageMatch) {
-      return this.getPackageHover(packageMatch, document, position);
+    if (!isHoverEnabled(document.uri)) {
+      return undefined;
     }
-
-    // Check for SDK directive
-    const sdkMatch = line.text.match(/^#:sdk\s+([\w\.]+)/);
-    if (sdkMatch) {
-      return this.getSdkHover(sdkMatch, document, position);
+    const directive = parseDirectiveLine(document.lineAt(position).text, position.line);
+    const hovered = directive && tokenAt(directive, position.character);
+    if (!directive || !hovered) {
+      return undefined;
     }
-
-    // Check for property directive
-    const propertyMatch = line.text.match(/^#:property\s+(\w+)\s+(.+)/);
-    if (propertyMatch) {
-      return this.getPropertyHover(propertyMatch, document, position);
+    const range = new vscode.Range(position.line, hovered.start, position.line, hovered.end);
+
+    switch (directive.kind) {
+      case "package":
+        return this.getPackageHover(directive, document, range, abortSignalFromToken(token));
+      case "sdk":
+        return this.getSdkHover(directive, document, range, abortSignalFromToken(token));
+      case "project":
+        return this.getProjectHover(directive, document, range);
+      case "property":
+        return this.getPropertyHover(directive, document, range);
     }
-
     return undefined;
   }
 
   private async getPackageHover(
-    match: RegExpMatchArray,
+    directive: PackageDirective,
     document: vscode.TextDocument,
-    position: vscode.Position
+    range: vscode.Range,
+    signal?: AbortSignal
   ): Promise<vscode.Hover | undefined> {
-    const [, packageId, version] = match;
-    const wordRange = document.getWordRangeAtPosition(position);
+    const packageId = directive.id?.text;
+    const version = directive.version?.text;
 
-    if (!wordRange) {
+    if (!packageId) {
       return undefined;
     }
 
     try {
-      const response = await axios.get(
-        `https://azuresearch-usnc.nuget.org/query?q=packageid:${packageId}&take=1`,
-        { timeout: 5000 }
-      );
-      const packageData = response.data.data[0];
+      const packageData = await this.packageSources.getPackage(document.uri, packageId, signal);
 
       if (!packageData) {
         return undefined;
@@ -495,211 +632,227 @@ class DirectiveHoverProvider implements vscode.HoverProvider {
         markdown.appendMarkdown(`${packageData.description}\n\n`);
       }
       markdown.appendMarkdown(`Current Version: \`${packageData.version}\`\n\n`);
+      const central = this.centralPackages.getCentralVersion(document.uri, packageId);
+      if (central) {
+        markdown.appendMarkdown(
+          `Central Version: \`${central.version}\` ([${path.basename(central.file)}](${vscode.Uri.file(central.file)}))\n\n`
+        );
+      }
       if (packageData.totalDownloads) {
         markdown.appendMarkdown(
           `Total Downloads: ${packageData.totalDownloads.toLocaleString()}\n\n`
         );
       }
+      // Without a pinned version, the license of the latest one is shown
+      const entry = await this.packageSources
+        .getCatalogEntry(document.uri, packageId, version ?? packageData.version, signal)
+        .catch(() => undefined);
+      if (entry) {
+        appendPackageLicense(markdown, entry);
+        const violation = describeLicenseViolation(entry, getLicensePolicy(document.uri));
+        if (violation) {
+          markdown.appendMarkdown(`⚠️ **License not allowed:** `).appendText(`${violation}\n\n`);
+        }
+        if (version) {
+          appendPackageHealth(markdown, entry);
+        }
+      }
       markdown.appendMarkdown(
         `[View on NuGet](https://www.nuget.org/packages/${packageData.id})`
       );
 
-      return new vscode.Hover(markdown, wordRange);
+      return new vscode.Hover(markdown, range);
     } catch (error) {
-      console.error("Error fetching package info for hover:", error);
+      if (!isCancellation(error)) {
+        console.error("Error fetching package info for hover:", error);
+      }
       return undefined;
     }
   }
 
-  private getSdkHover(
-    match: RegExpMatchArray,
+  private async getSdkHover(
+    directive: SdkDirective,
     document: vscode.TextDocument,
-    position: vscode.Position
-  ): vscode.Hover | undefined {
-    const [, sdkId] = match;
-    const wordRange = document.getWordRangeAtPosition(position);
+    range: vscode.Range,
+    signal?: AbortSignal
+  ): Promise<vscode.Hover | undefined> {
+    const sdkId = directive.name?.text;
+    const version = directive.version?.text;
 
-    if (!wordRange) {
+    if (!sdkId) {
       return undefined;
     }
 
-    const sdkInfo = this.findSdkInfo(sdkId);
-    if (!sdkInfo) {
+    // SDKs bundled with the .NET SDK are not on the feed unless a version asks for one
+    const sdkInfo = this.metadata.findSdk(sdkId, document.uri);
+    let packageData: NuGetPackage | undefined;
+    if (!sdkInfo || version) {
+      try {
+        packageData = await this.packageSources.getPackage(document.uri, sdkId, signal);
+      } catch (error) {
+        if (!isCancellation(error)) {
+          console.error("Error fetching SDK package info for hover:", error);
+        }
+      }
+    }
+    if (!sdkInfo && !packageData) {
       return undefined;
     }
 
     const markdown = new vscode.MarkdownString();
-    markdown.appendMarkdown(`**${sdkInfo.displayName}**\n\n`);
-    markdown.appendMarkdown(`${sdkInfo.description}\n\n`);
-    markdown.appendMarkdown(`SDK: \`${sdkInfo.id}\`\n\n`);
-    if (sdkInfo.defaultTargetFramework) {
+    markdown.appendMarkdown(`**${sdkInfo?.displayName ?? packageData?.id}**\n\n`);
+    const description = sdkInfo?.description || packageData?.description;
+    if (description) {
+      markdown.appendMarkdown(`${description}\n\n`);
+    }
+    markdown.appendMarkdown(`SDK: \`${sdkInfo?.id ?? packageData?.id}\`\n\n`);
+    if (version) {
+      markdown.appendMarkdown(`Version: \`${version}\`\n\n`);
+    }
+    if (packageData?.version) {
+      markdown.appendMarkdown(`Latest Version: \`${packageData.version}\`\n\n`);
+    }
+    if (sdkInfo?.defaultTargetFramework) {
       markdown.appendMarkdown(`Default Target Framework: \`${sdkInfo.defaultTargetFramework}\`\n\n`);
     }
+    if (packageData && version) {
+      const entry = await this.packageSources
+        .getCatalogEntry(document.uri, sdkId, version, signal)
+        .catch(() => undefined);
+      if (entry) {
+        appendPackageHealth(markdown, entry);
+      }
+    }
+    if (packageData) {
+      markdown.appendMarkdown(
+        `[View on NuGet](https://www.nuget.org/packages/${packageData.id}) • `
+      );
+    }
     markdown.appendMarkdown(
       `[Learn more about .NET SDKs](https://docs.microsoft.com/en-us/dotnet/core/project-sdk/overview)`
     );
 
-    return new vscode.Hover(markdown, wordRange);
+    return new vscode.Hover(markdown, range);
   }
 
-  private getPropertyHover(
-    match: RegExpMatchArray,
+  private getProjectHover(
+    directive: ProjectDirective,
     document: vscode.TextDocument,
-    position: vscode.Position
+    range: vscode.Range
   ): vscode.Hover | undefined {
-    const [, propertyName, propertyValue] = match;
-    const wordRange = document.getWordRangeAtPosition(position);
+    if (!directive.path || document.uri.scheme !== "file") {
+      return undefined;
+    }
 
-    if (!wordRange) {
+    const resolution = resolveProjectReference(document.uri.fsPath, directive.path.text);
+    if (!("projectPath" in resolution)) {
+      return undefined;
+    }
+    const projectInfo = readProjectInfo(resolution.projectPath);
+    if (!projectInfo) {
       return undefined;
     }
 
-    const propertyInfo = this.findPropertyInfo(propertyName);
-    if (!propertyInfo) {
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${path.basename(projectInfo.projectPath, path.extname(projectInfo.projectPath))}**\n\n`);
+    markdown.appendMarkdown(`Project: \`${vscode.workspace.asRelativePath(projectInfo.projectPath)}\`\n\n`);
+    if (projectInfo.sdk) {
+      markdown.appendMarkdown(`SDK: \`${projectInfo.sdk}\`\n\n`);
+    }
+    if (projectInfo.targetFrameworks.length > 0) {
+      const label = projectInfo.targetFrameworks.length > 1 ? "Target Frameworks" : "Target Framework";
+      markdown.appendMarkdown(`${label}: ${projectInfo.targetFrameworks.map(f => `\`${f}\``).join(", ")}\n\n`);
+    }
+    markdown.appendMarkdown(
+      `[Learn more about file-based apps](https://docs.microsoft.com/en-us/dotnet/core/tutorials/file-based-apps)`
+    );
+
+    return new vscode.Hover(markdown, range);
+  }
+
+  private getPropertyHover(
+    directive: PropertyDirective,
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): vscode.Hover | undefined {
+    const propertyName = directive.name?.text;
+    const propertyValue = directive.value?.text;
+
+    if (!propertyName) {
       return undefined;
     }
 
+    const propertyInfo = this.metadata.findProperty(propertyName, document.uri);
+    const inherited = this.centralPackages.getInheritedProperty(document.uri, propertyName);
+
     const markdown = new vscode.MarkdownString();
-    markdown.appendMarkdown(`**${propertyInfo.name}**\n\n`);
-    markdown.appendMarkdown(`${propertyInfo.description}\n\n`);
-    markdown.appendMarkdown(`Current Value: \`${propertyValue}\`\n\n`);
-    if (propertyInfo.defaultValue) {
-      markdown.appendMarkdown(`Default Value: \`${propertyInfo.defaultValue}\`\n\n`);
+    markdown.appendMarkdown(`**${propertyInfo?.name ?? propertyName}**\n\n`);
+    if (propertyInfo) {
+      markdown.appendMarkdown(`${propertyInfo.description}\n\n`);
+    } else {
+      markdown.appendMarkdown("Not in the property catalog; the value is passed to MSBuild unchecked.\n\n");
+    }
+    if (propertyValue) {
+      markdown.appendMarkdown(`Current Value: \`${propertyValue}\`\n\n`);
     }
-    if (propertyInfo.possibleValues) {
+    if (inherited) {
+      // The directive overrides what the props file sets
       markdown.appendMarkdown(
-        `Possible values: ${propertyInfo.possibleValues.map(v => `\`${v}\``).join(", ")}\n\n`
+        `Inherited Value: \`${inherited.value}\` ([${path.basename(inherited.file)}](${vscode.Uri.file(inherited.file)}))\n\n`
       );
     }
+    if (propertyInfo) {
+      appendPropertyValues(markdown, propertyInfo);
+    }
     markdown.appendMarkdown(
       `[Learn more about MSBuild properties](https://docs.microsoft.com/en-us/dotnet/core/project-sdk/msbuild-props)`
     );
 
-    return new vscode.Hover(markdown, wordRange);
+    return new vscode.Hover(markdown, range);
   }
+}
 
-  private findSdkInfo(sdkId: string) {
-    // Define the same SDK info as in the completion provider
-    const COMMON_SDKS = [
-      {
-        id: "Microsoft.NET.Sdk",
-        displayName: "Console/Library SDK",
-        description: "Default SDK for console applications and class libraries",
-        defaultTargetFramework: "net10.0"
-      },
-      {
-        id: "Microsoft.NET.Sdk.Web",
-        displayName: "Web SDK",
-        description: "SDK for ASP.NET Core applications, Web APIs, and Blazor apps"
-      },
-      {
-        id: "Microsoft.NET.Sdk.Worker",
-        displayName: "Worker SDK",
-        description: "SDK for background service applications and hosted services"
-      },
-      {
-        id: "Microsoft.NET.Sdk.WindowsDesktop",
-        displayName: "Windows Desktop SDK",
-        description: "SDK for WPF and Windows Forms applications"
-      },
-      {
-        id: "Microsoft.NET.Sdk.Razor",
-        displayName: "Razor SDK",
-        description: "SDK for Razor class libraries and components"
-      },
-      {
-        id: "Microsoft.NET.Sdk.BlazorWebAssembly",
-        displayName: "Blazor WebAssembly SDK",
-        description: "SDK for Blazor WebAssembly applications"
-      }
-    ];
-
-    return COMMON_SDKS.find(sdk => sdk.id === sdkId);
+/** Value type, default, suggested values and SDKs of a property, for completion docs and hovers. */
+function appendPropertyValues(markdown: vscode.MarkdownString, property: PropertyInfo) {
+  if (getValueType(property) !== "enum") {
+    markdown.appendMarkdown(`Value: ${describeValueType(property)}\n\n`);
   }
-
-  private findPropertyInfo(propertyName: string) {
-    // Define the same property info as in the completion provider
-    const COMMON_PROPERTIES = [
-      {
-        name: "LangVersion",
-        description: "C# language version to use",
-        possibleValues: ["latest", "preview", "12", "11", "10", "9", "8", "7.3", "7.2", "7.1", "7"],
-        defaultValue: "latest"
-      },
-      {
-        name: "TargetFramework",
-        description: "Target framework for the application",
-        possibleValues: ["net10.0", "net9.0", "net8.0", "net7.0", "net6.0", "netstandard2.1", "netstandard2.0"],
-        defaultValue: "net10.0"
-      },
-      {
-        name: "Nullable",
-        description: "Nullable reference types setting",
-        possibleValues: ["enable", "disable", "warnings", "annotations"],
-        defaultValue: "enable"
-      },
-      {
-        name: "ImplicitUsings",
-        description: "Enable implicit using statements",
-        possibleValues: ["enable", "disable"],
-        defaultValue: "enable"
-      },
-      {
-        name: "TreatWarningsAsErrors",
-        description: "Treat compiler warnings as errors",
-        possibleValues: ["true", "false"],
-        defaultValue: "false"
-      },
-      {
-        name: "WarningLevel",
-        description: "Compiler warning level",
-        possibleValues: ["0", "1", "2", "3", "4", "5"],
-        defaultValue: "4"
-      },
-      {
-        name: "OutputType",
-        description: "Type of output to generate",
-        possibleValues: ["Exe", "Library", "Module", "Winexe"],
-        defaultValue: "Exe"
-      },
-      {
-        name: "PublishAot",
-        description: "Enable ahead-of-time compilation for publishing",
-        possibleValues: ["true", "false"],
-        defaultValue: "false"
-      },
-      {
-        name: "InvariantGlobalization",
-        description: "Enable invariant globalization mode",
-        possibleValues: ["true", "false"],
-        defaultValue: "false"
-      },
-      {
-        name: "EnablePreviewFeatures",
-        description: "Enable preview language and runtime features",
-        possibleValues: ["true", "false"],
-        defaultValue: "false"
-      }
-    ];
-
-    return COMMON_PROPERTIES.find(prop => prop.name === propertyName);
+  if (property.defaultValue) {
+    markdown.appendMarkdown(`Default: \`${property.defaultValue}\`\n\n`);
+  }
+  if (property.possibleValues) {
+    const label = getValueType(property) === "enum" ? "Possible values" : "Common values";
+    markdown.appendMarkdown(`${label}: ${property.possibleValues.map(v => `\`${v}\``).join(", ")}\n\n`);
+  }
+  if (property.sdks) {
+    markdown.appendMarkdown(`Used by: ${property.sdks.map(sdk => `\`${sdk}\``).join(", ")}\n\n`);
   }
 }
 
 export function activate(context: vscode.ExtensionContext) {
-  const completionProvider = new DirectiveCompletionProvider();
-  const hoverProvider = new DirectiveHoverProvider();
-
-  // Register completion provider for C# files with comprehensive triggers
-  const completionDisposable = vscode.languages.registerCompletionItemProvider(
+  const configuration = () => vscode.workspace.getConfiguration(SETTINGS_SECTION);
+  const isOffline = () => configuration().get<boolean>("offline", false);
+
+  // Feed responses persist across sessions and back offline mode
+  const metadataCache = new MetadataCache(
+    path.join(context.globalStorageUri.fsPath, "metadata-cache"),
+    () => configuration().get<number>("cache.maxSizeMB", 50) * 1024 * 1024,
+    isOffline,
+    new RequestScheduler(() => MAX_CONCURRENT_REQUESTS)
+  );
+  const packageSources = new PackageSourceService(metadataCache);
+  const directiveMetadata = new DirectiveMetadataRegistry();
+  const centralPackages = new CentralPackageService();
+  const completionProvider = new DirectiveCompletionProvider(packageSources, directiveMetadata, centralPackages);
+  const hoverProvider = new DirectiveHoverProvider(packageSources, directiveMetadata, centralPackages);
+
+  // Trigger characters are fixed at registration, so register again when they change
+  const registerCompletion = () => vscode.languages.registerCompletionItemProvider(
     { scheme: "file", language: "csharp" },
     completionProvider,
-    "#", // Trigger for directive start
-    ":", // Trigger after #:
-    " ", // Trigger after directive name
-    "@", // Trigger for package version completion
-    "." // Trigger for package name completion with dots
+    ...getTriggerCharacters()
   );
+  let completionDisposable = registerCompletion();
 
   // Register hover provider for comprehensive directive information
   const hoverDisposable = vscode.languages.registerHoverProvider(
@@ -707,7 +860,117 @@ export function activate(context: vscode.ExtensionContext) {
     hoverProvider
   );
 
-  context.subscriptions.push(completionDisposable, hoverDisposable);
+  // Make #:project paths clickable
+  const linkDisposable = vscode.languages.registerDocumentLinkProvider(
+    { scheme: "file", language: "csharp" },
+    new ProjectReferenceLinkProvider()
+  );
+
+  // Version, health and dependency summary above each #:package line
+  const codeLensProvider = new PackageCodeLensProvider(packageSources, directiveMetadata, centralPackages);
+  const codeLensDisposable = vscode.languages.registerCodeLensProvider(
+    { scheme: "file", language: "csharp" },
+    codeLensProvider
+  );
+
+  // Explorer view of the active file's transitive package dependencies
+  const dependencyTree = new DependencyTreeProvider(packageSources, directiveMetadata, centralPackages);
+
+  // Outline of the directive header, workspace-wide directive search and the package report
+  const workspaceDirectives = new WorkspaceDirectiveIndex();
+  const documentSymbolDisposable = vscode.languages.registerDocumentSymbolProvider(
+    { scheme: "file", language: "csharp" },
+    new DirectiveDocumentSymbolProvider(),
+    { label: "C# Directives" }
+  );
+  const workspaceSymbolDisposable = vscode.languages.registerWorkspaceSymbolProvider(
+    new DirectiveWorkspaceSymbolProvider(workspaceDirectives)
+  );
+  const workspaceReport = new WorkspacePackageReportProvider(workspaceDirectives);
+
+  // Validate directives as documents are opened, edited and saved
+  const diagnosticsProvider = new DirectiveDiagnosticsProvider(packageSources, directiveMetadata, centralPackages);
+
+  // dotnet run/build/publish/restore tasks; their restore errors join the directive diagnostics
+  const fileTaskProvider = new FileTaskProvider(diagnosticsProvider);
+  const taskDisposable = vscode.tasks.registerTaskProvider(FILE_TASK_TYPE, fileTaskProvider);
+
+  // Quick fixes and commands for bumping outdated packages
+  const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+    { scheme: "file", language: "csharp" },
+    new PackageUpdateCodeActionProvider(packageSources),
+    { providedCodeActionKinds: PackageUpdateCodeActionProvider.providedCodeActionKinds }
+  );
+
+  // Quick fixes for misplaced, duplicate and conflicting directives, and central version mismatches
+  const directiveFixDisposable = vscode.languages.registerCodeActionsProvider(
+    { scheme: "file", language: "csharp" },
+    new DirectiveFixCodeActionProvider(packageSources, directiveMetadata, centralPackages),
+    { providedCodeActionKinds: DirectiveFixCodeActionProvider.providedCodeActionKinds }
+  );
+
+  // Add the #:package providing an unresolved using directive or well-known type
+  const packageSuggestionDisposable = vscode.languages.registerCodeActionsProvider(
+    { scheme: "file", language: "csharp" },
+    new PackageSuggestionCodeActionProvider(packageSources, centralPackages),
+    { providedCodeActionKinds: PackageSuggestionCodeActionProvider.providedCodeActionKinds }
+  );
+
+  // Status bar indicator that doubles as the offline toggle
+  const offlineStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+  offlineStatus.text = "$(cloud-offline) NuGet offline";
+  offlineStatus.tooltip = "Package completion and hover are served from the cache and the global packages folder. Click to go online.";
+  offlineStatus.command = "csharpPackageAutocomplete.toggleOfflineMode";
+  const updateOfflineStatus = () => (isOffline() ? offlineStatus.show() : offlineStatus.hide());
+  updateOfflineStatus();
+
+  context.subscriptions.push(
+    metadataCache,
+    offlineStatus,
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration("csharpPackageAutocomplete.offline")) {
+        updateOfflineStatus();
+      }
+      if (event.affectsConfiguration("csharpPackageAutocomplete.completion.triggerCharacters")) {
+        completionDisposable.dispose();
+        completionDisposable = registerCompletion();
+      }
+    }),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.toggleOfflineMode", () =>
+      configuration().update("offline", !isOffline(), vscode.ConfigurationTarget.Global)
+    ),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.toggleCodeLens", () => {
+      const codeLens = vscode.workspace.getConfiguration("csharpPackageAutocomplete.codeLens");
+      return codeLens.update("enabled", !codeLens.get<boolean>("enabled", true), vscode.ConfigurationTarget.Global);
+    }),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.refreshDependencies", () => dependencyTree.refresh()),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.showWorkspacePackages", () => workspaceReport.show()),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.clearCache", async () => {
+      await packageSources.clearCache();
+      vscode.window.showInformationMessage("Package metadata cache cleared.");
+    }),
+    packageSources,
+    directiveMetadata,
+    centralPackages,
+    { dispose: () => completionDisposable.dispose() },
+    hoverDisposable,
+    linkDisposable,
+    codeLensProvider,
+    codeLensDisposable,
+    dependencyTree,
+    workspaceDirectives,
+    documentSymbolDisposable,
+    workspaceSymbolDisposable,
+    workspaceReport,
+    diagnosticsProvider,
+    taskDisposable,
+    codeActionDisposable,
+    directiveFixDisposable,
+    packageSuggestionDisposable,
+    ...registerPackageUpdateCommands(packageSources),
+    ...registerProjectConversionCommands(directiveMetadata),
+    ...registerFileTaskCommands(fileTaskProvider)
+  );
 
   console.log("C# File-Based App Directive Support extension activated!");
 }
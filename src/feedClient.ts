@@ -0,0 +1,391 @@
+import { AxiosProxyConfig, AxiosRequestConfig } from "axios";
+import * as https from "https";
+import { MetadataCache } from "./metadataCache";
+import { PackageSource } from "./nugetConfig";
+import { isCancellation } from "./requestScheduler";
+import { compareVersions } from "./versions";
+
+export interface NuGetPackage {
+  id: string;
+  version: string;
+  description?: string;
+  totalDownloads?: number;
+  source?: string;
+  /** Declared package types, e.g. `Dependency` or `MSBuildSdk`. */
+  packageTypes?: string[];
+  /** True when the package is present in the global packages folder or a fallback folder. */
+  installedLocally?: boolean;
+}
+
+interface NuGetSearchResult {
+  data: Array<{
+    id: string;
+    version: string;
+    description?: string;
+    totalDownloads?: number;
+    versions?: Array<{ version: string }>;
+    packageTypes?: Array<{ name: string }>;
+  }>;
+}
+
+interface ServiceIndex {
+  version: string;
+  resources: Array<{
+    "@id": string;
+    "@type": string | string[];
+  }>;
+}
+
+export interface PackageVulnerability {
+  advisoryUrl: string;
+  /** 0 = Low, 1 = Moderate, 2 = High, 3 = Critical */
+  severity: string;
+}
+
+export interface PackageDeprecation {
+  reasons: string[];
+  message?: string;
+  alternatePackage?: {
+    id: string;
+    range?: string;
+  };
+}
+
+export interface PackageDependency {
+  id: string;
+  /** NuGet version range, e.g. `[1.0.0, )`. */
+  range?: string;
+}
+
+export interface PackageDependencyGroup {
+  /** Long framework name such as `.NETStandard2.0`; absent for framework-neutral groups. */
+  targetFramework?: string;
+  dependencies?: PackageDependency[];
+}
+
+export interface RegistrationCatalogEntry {
+  id: string;
+  version: string;
+  description?: string;
+  listed?: boolean;
+  published?: string;
+  /** SPDX expression; older packages only have a `licenseUrl`. */
+  licenseExpression?: string;
+  licenseUrl?: string;
+  vulnerabilities?: PackageVulnerability[];
+  deprecation?: PackageDeprecation;
+  dependencyGroups?: PackageDependencyGroup[];
+}
+
+interface RegistrationPage {
+  "@id": string;
+  lower: string;
+  upper: string;
+  items?: Array<{ catalogEntry: RegistrationCatalogEntry }>;
+}
+
+interface RegistrationIndex {
+  items: RegistrationPage[];
+}
+
+type ResourceKind = "search" | "packageBaseAddress" | "registrations" | "autocomplete";
+
+/**
+ * Accepted `@type` values per resource, most preferred first. Newer
+ * registration hives are gzipped and include SemVer 2.0.0 packages.
+ */
+const RESOURCE_TYPES: Record<ResourceKind, string[]> = {
+  search: [
+    "SearchQueryService/3.5.0",
+    "SearchQueryService/3.0.0-rc",
+    "SearchQueryService/3.0.0-beta",
+    "SearchQueryService"
+  ],
+  packageBaseAddress: ["PackageBaseAddress/3.0.0"],
+  registrations: [
+    "RegistrationsBaseUrl/3.6.0",
+    "RegistrationsBaseUrl/3.4.0",
+    "RegistrationsBaseUrl/3.0.0-rc",
+    "RegistrationsBaseUrl/3.0.0-beta",
+    "RegistrationsBaseUrl"
+  ],
+  autocomplete: [
+    "SearchAutocompleteService/3.5.0",
+    "SearchAutocompleteService/3.0.0-rc",
+    "SearchAutocompleteService/3.0.0-beta",
+    "SearchAutocompleteService"
+  ]
+};
+
+// 30 minutes
+const SERVICE_INDEX_CACHE_DURATION = 30 * 60 * 1000;
+// Shared by every request made with `http.proxyStrictSSL` turned off
+const insecureAgent = new https.Agent({ rejectUnauthorized: false });
+
+export interface FeedRequestSettings {
+  /** Milliseconds before a request is abandoned. */
+  timeout: number;
+  /** Milliseconds a cached response is served without revalidation. */
+  cacheDuration: number;
+  /** `http://[user:password@]host:port`; undefined uses the environment's proxy variables. */
+  proxy?: string;
+  /** Reject feeds and proxies with untrusted certificates. */
+  strictSSL: boolean;
+}
+
+/**
+ * Talks to a single NuGet V3 feed. The endpoints are discovered from the
+ * feed's service index rather than hardcoded, so any V3-compatible server
+ * (nuget.org, Azure Artifacts, Artifactory, BaGet, Sleet, a local test
+ * feed) works the same way.
+ */
+export class NuGetFeedClient {
+  private serviceIndex?: Promise<ServiceIndex>;
+  private serviceIndexExpiry = 0;
+
+  constructor(
+    readonly source: PackageSource,
+    private readonly cache: MetadataCache,
+    private readonly getSettings: () => FeedRequestSettings
+  ) {}
+
+  async search(
+    query: string,
+    take: number,
+    prerelease = false,
+    signal?: AbortSignal,
+    packageType?: string
+  ): Promise<NuGetPackage[]> {
+    if (!(await this.hasResource("search"))) {
+      // Static feeds such as Sleet may only offer autocomplete, which returns bare ids
+      const ids = await this.autocomplete(query, take, prerelease, signal, packageType);
+      return ids.map((id) => ({ id, version: "", source: this.source.name }));
+    }
+
+    const response = await this.getWithFallback<NuGetSearchResult>("search", (url) => url, {
+      params: {
+        q: query,
+        take,
+        prerelease,
+        // Without this, packages whose only versions use SemVer 2.0.0 features are hidden
+        semVerLevel: "2.0.0",
+        packageType,
+      },
+    }, signal);
+
+    return (response?.data || []).map((item) => ({
+      id: item.id,
+      version: item.version,
+      description: item.description,
+      totalDownloads: item.totalDownloads,
+      source: this.source.name,
+      packageTypes: item.packageTypes?.map((type) => type.name),
+    }));
+  }
+
+  async autocomplete(
+    query: string,
+    take: number,
+    prerelease = false,
+    signal?: AbortSignal,
+    packageType?: string
+  ): Promise<string[]> {
+    const response = await this.getWithFallback<{ data: string[] }>("autocomplete", (url) => url, {
+      params: {
+        q: query,
+        take,
+        prerelease,
+        // Without this, packages whose only versions use SemVer 2.0.0 features are hidden
+        semVerLevel: "2.0.0",
+        packageType,
+      },
+    }, signal);
+    return response?.data || [];
+  }
+
+  async getPackage(
+    packageId: string,
+    prerelease = false,
+    signal?: AbortSignal
+  ): Promise<NuGetPackage | undefined> {
+    if (await this.hasResource("search")) {
+      const packages = await this.search(`packageid:${packageId}`, 1, prerelease, signal);
+      if (packages[0]) {
+        return packages[0];
+      }
+    }
+
+    // Feeds without a search service still expose registration metadata
+    const leaves = await this.getRegistrationLeaves(packageId, undefined, signal);
+    const latest = leaves.filter((entry) => entry.listed !== false).pop();
+    return latest
+      ? {
+          id: latest.id,
+          version: latest.version,
+          description: latest.description,
+          source: this.source.name,
+        }
+      : undefined;
+  }
+
+  async getVersions(packageId: string, signal?: AbortSignal): Promise<string[]> {
+    const response = await this.getWithFallback<{ versions?: string[] }>(
+      "packageBaseAddress",
+      (url) => `${trimSlash(url)}/${packageId.toLowerCase()}/index.json`,
+      {},
+      signal
+    );
+    return response?.versions || [];
+  }
+
+  /**
+   * Returns the catalog entries of a package, oldest first, following
+   * registration pages that are not inlined in the index. When `version` is
+   * given, only the page whose range contains it is downloaded.
+   */
+  async getRegistrationLeaves(
+    packageId: string,
+    version?: string,
+    signal?: AbortSignal
+  ): Promise<RegistrationCatalogEntry[]> {
+    const index = await this.getWithFallback<RegistrationIndex>(
+      "registrations",
+      (url) => `${trimSlash(url)}/${packageId.toLowerCase()}/index.json`,
+      {},
+      signal
+    );
+    if (!index) {
+      return [];
+    }
+
+    const pages = (index.items || []).filter(
+      (page) =>
+        !version ||
+        (compareVersions(version, page.lower) >= 0 && compareVersions(version, page.upper) <= 0)
+    );
+
+    const entries: RegistrationCatalogEntry[] = [];
+    for (const page of pages) {
+      const items = page.items
+        ?? (await this.get<RegistrationPage>(page["@id"], {}, undefined, signal))?.items
+        ?? [];
+      entries.push(...items.map((item) => item.catalogEntry));
+    }
+    return entries;
+  }
+
+  async hasResource(kind: ResourceKind): Promise<boolean> {
+    return (await this.getResourceUrls(kind)).length > 0;
+  }
+
+  /**
+   * Issues a GET against each equivalent resource in turn until one answers.
+   * A 404 is a definitive "not found" and is not retried elsewhere.
+   */
+  private async getWithFallback<T>(
+    kind: ResourceKind,
+    buildUrl: (resourceUrl: string) => string,
+    config: AxiosRequestConfig = {},
+    signal?: AbortSignal
+  ): Promise<T | undefined> {
+    const urls = await this.getResourceUrls(kind);
+    let lastError: unknown;
+
+    for (const url of urls) {
+      try {
+        return await this.get<T>(buildUrl(url), config, undefined, signal);
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+    return undefined;
+  }
+
+  private async getResourceUrls(kind: ResourceKind): Promise<string[]> {
+    const index = await this.getServiceIndex();
+    const urls: string[] = [];
+
+    for (const type of RESOURCE_TYPES[kind]) {
+      for (const resource of index.resources || []) {
+        const types = Array.isArray(resource["@type"]) ? resource["@type"] : [resource["@type"]];
+        if (types.includes(type) && !urls.includes(resource["@id"])) {
+          urls.push(resource["@id"]);
+        }
+      }
+    }
+    return urls;
+  }
+
+  private getServiceIndex(): Promise<ServiceIndex> {
+    if (!this.serviceIndex || this.serviceIndexExpiry <= Date.now()) {
+      this.serviceIndexExpiry = Date.now() + SERVICE_INDEX_CACHE_DURATION;
+      this.serviceIndex = this.get<ServiceIndex>(this.source.url, {}, SERVICE_INDEX_CACHE_DURATION)
+        .then((index) => {
+          if (!index) {
+            throw new Error(`Service index not found at ${this.source.url}`);
+          }
+          return index;
+        });
+      // Allow a retry on the next request if the feed was unreachable
+      this.serviceIndex.catch(() => (this.serviceIndex = undefined));
+    }
+    return this.serviceIndex;
+  }
+
+  /** GETs through the metadata cache; resolves to undefined on 404. */
+  private get<T>(
+    url: string,
+    config: AxiosRequestConfig = {},
+    maxAge = this.getSettings().cacheDuration,
+    signal?: AbortSignal
+  ): Promise<T | undefined> {
+    return this.cache.get<T>(url, { maxAge, config: { ...this.requestConfig(), ...config }, signal });
+  }
+
+  private requestConfig(): AxiosRequestConfig {
+    const settings = this.getSettings();
+    const config: AxiosRequestConfig = { timeout: settings.timeout };
+    if (settings.proxy) {
+      config.proxy = parseProxy(settings.proxy);
+    }
+    if (!settings.strictSSL) {
+      config.httpsAgent = insecureAgent;
+    }
+    if (this.source.credentials) {
+      config.auth = {
+        username: this.source.credentials.username,
+        password: this.source.credentials.password,
+      };
+    }
+    return config;
+  }
+}
+
+function parseProxy(proxy: string): AxiosProxyConfig | undefined {
+  let url: URL;
+  try {
+    url = new URL(proxy.includes("://") ? proxy : `http://${proxy}`);
+  } catch {
+    return undefined;
+  }
+  const protocol = url.protocol.replace(/:$/, "");
+  return {
+    protocol,
+    host: url.hostname,
+    port: Number(url.port) || (protocol === "https" ? 443 : 80),
+    auth: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined
+  };
+}
+
+function trimSlash(url: string): string {
+  return url.endsWith("/") ? url.slice(0, -1) : url;
+}
@@ -0,0 +1,172 @@
+import { ChildProcess, spawn } from "child_process";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DirectiveDiagnosticsProvider } from "./diagnostics";
+
+export const FILE_TASK_TYPE = "csharp-file";
+
+export type FileTaskCommand = "run" | "build" | "publish" | "restore";
+
+const FILE_TASK_COMMANDS: FileTaskCommand[] = ["run", "build", "publish", "restore"];
+
+// Restore messages precede the app's own output, which can be unbounded
+const MAX_CAPTURED_OUTPUT = 1024 * 1024;
+
+interface FileTaskDefinition extends vscode.TaskDefinition {
+  command: FileTaskCommand;
+  /** Path of the `.cs` file, absolute or relative to the workspace folder. */
+  file: string;
+  /** Extra `dotnet` arguments; for `run`, arguments after `--` go to the app. */
+  args?: string[];
+}
+
+/**
+ * Provides `dotnet run|build|publish|restore app.cs` tasks for the active C#
+ * file and resolves `csharp-file` tasks from tasks.json. The process runs in
+ * a pseudoterminal so its restore errors can be attributed to `#:package`
+ * lines once it exits; compiler errors go through the `$dotnet-file`
+ * problem matcher.
+ */
+export class FileTaskProvider implements vscode.TaskProvider {
+  constructor(private readonly diagnostics: DirectiveDiagnosticsProvider) {}
+
+  provideTasks(): vscode.Task[] {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document || document.languageId !== "csharp" || document.uri.scheme !== "file") {
+      return [];
+    }
+    return FILE_TASK_COMMANDS.map(command => this.createTask(command, document.uri));
+  }
+
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as FileTaskDefinition;
+    if (!FILE_TASK_COMMANDS.includes(definition.command) || !definition.file) {
+      return undefined;
+    }
+    return this.createTaskFromDefinition(definition, task.scope);
+  }
+
+  createTask(command: FileTaskCommand, uri: vscode.Uri): vscode.Task {
+    return this.createTaskFromDefinition(
+      { type: FILE_TASK_TYPE, command, file: uri.fsPath },
+      vscode.workspace.getWorkspaceFolder(uri) ?? vscode.TaskScope.Workspace
+    );
+  }
+
+  private createTaskFromDefinition(definition: FileTaskDefinition, scope: vscode.Task["scope"]): vscode.Task {
+    const task = new vscode.Task(
+      definition,
+      scope ?? vscode.TaskScope.Workspace,
+      `${definition.command} ${path.basename(definition.file)}`,
+      "dotnet",
+      // Variables such as ${file} are substituted in the resolved definition
+      new vscode.CustomExecution(async resolved => {
+        const resolvedDefinition = resolved as FileTaskDefinition;
+        const folder = typeof scope === "object" ? scope.uri.fsPath : undefined;
+        const file = folder ? path.resolve(folder, resolvedDefinition.file) : path.resolve(resolvedDefinition.file);
+        return new DotnetTerminal(
+          [resolvedDefinition.command, path.basename(file), ...(resolvedDefinition.args ?? [])],
+          path.dirname(file),
+          output => this.diagnostics.setRestoreMessages(vscode.Uri.file(file), output)
+        );
+      }),
+      ["$dotnet-file"]
+    );
+    if (definition.command === "build" || definition.command === "restore") {
+      task.group = vscode.TaskGroup.Build;
+    }
+    if (definition.command === "run") {
+      task.presentationOptions = { focus: true };
+    }
+    return task;
+  }
+}
+
+/**
+ * Runs `dotnet` in a task terminal, forwarding typed input to the process
+ * so interactive scripts work, and hands the full output over on exit.
+ */
+class DotnetTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  readonly onDidWrite = this.writeEmitter.event;
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  readonly onDidClose = this.closeEmitter.event;
+
+  private process?: ChildProcess;
+  private output = "";
+
+  constructor(
+    private readonly args: string[],
+    private readonly cwd: string,
+    private readonly onExit: (output: string) => Promise<void>
+  ) {}
+
+  open() {
+    this.write(`> dotnet ${this.args.join(" ")}\n\n`);
+    const child = spawn("dotnet", this.args, { cwd: this.cwd });
+    this.process = child;
+
+    const append = (data: Buffer) => {
+      const text = data.toString();
+      if (this.output.length < MAX_CAPTURED_OUTPUT) {
+        this.output += text;
+      }
+      this.write(text);
+    };
+    child.stdout?.on("data", append);
+    child.stderr?.on("data", append);
+    // A process that fails to start may or may not report "close" as well
+    let exited = false;
+    child.on("error", error => {
+      if (!exited) {
+        exited = true;
+        this.write(`Failed to start dotnet: ${error.message}\n`);
+        this.closeEmitter.fire(1);
+      }
+    });
+    child.on("close", code => {
+      this.process = undefined;
+      if (exited) {
+        return;
+      }
+      exited = true;
+      this.onExit(this.output)
+        .catch(error => console.error("Failed to read restore messages:", error))
+        .finally(() => this.closeEmitter.fire(code ?? 1));
+    });
+  }
+
+  handleInput(data: string) {
+    if (data === "\x03") {
+      this.process?.kill();
+      return;
+    }
+    // The terminal does not echo input; Enter arrives as a carriage return
+    this.write(data.replace(/\r/g, "\n"));
+    this.process?.stdin?.write(data.replace(/\r/g, "\n"));
+  }
+
+  close() {
+    this.process?.kill();
+  }
+
+  private write(text: string) {
+    this.writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+  }
+}
+
+/** Commands running the active (or selected) C# file through its task. */
+export function registerFileTaskCommands(provider: FileTaskProvider): vscode.Disposable[] {
+  return FILE_TASK_COMMANDS.map(command =>
+    vscode.commands.registerCommand(`csharpPackageAutocomplete.${command}File`, async (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!target || target.scheme !== "file" || path.extname(target.fsPath).toLowerCase() !== ".cs") {
+        vscode.window.showWarningMessage(`Open a C# file-based app to ${command} it.`);
+        return;
+      }
+      // dotnet reads the file from disk
+      await vscode.workspace.textDocuments.find(document => document.uri.toString() === target.toString())?.save();
+      await vscode.tasks.executeTask(provider.createTask(command, target));
+    })
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * SPDX license expressions, as NuGet packages declare them
+ * (`MIT`, `Apache-2.0 OR GPL-2.0-only`, `GPL-2.0-or-later WITH Classpath-exception-2.0`),
+ * and the license policy checked against them.
+ */
+
+export type LicenseExpression =
+  | { kind: "license"; id: string; exception?: string }
+  | { kind: "and" | "or"; left: LicenseExpression; right: LicenseExpression };
+
+/**
+ * Allowed and denied licenses. Entries are SPDX identifiers, optionally with
+ * `*` wildcards (`GPL-*`), or `<license> WITH <exception>` pairs. An empty
+ * allow list allows every license that is not denied.
+ */
+export interface LicensePolicy {
+  allowed: string[];
+  denied: string[];
+}
+
+/** Parses an SPDX expression; `WITH` binds tighter than `AND`, which binds tighter than `OR`. */
+export function parseLicenseExpression(text: string): LicenseExpression | undefined {
+  const tokens = text.match(/[()]|[^\s()]+/g) ?? [];
+  let position = 0;
+  const peek = () => tokens[position]?.toUpperCase();
+
+  const parseOr = (): LicenseExpression | undefined => {
+    let left = parseAnd();
+    while (left && peek() === "OR") {
+      position++;
+      const right = parseAnd();
+      left = right && { kind: "or", left, right };
+    }
+    return left;
+  };
+
+  const parseAnd = (): LicenseExpression | undefined => {
+    let left = parseTerm();
+    while (left && peek() === "AND") {
+      position++;
+      const right = parseTerm();
+      left = right && { kind: "and", left, right };
+    }
+    return left;
+  };
+
+  const parseTerm = (): LicenseExpression | undefined => {
+    const token = tokens[position++];
+    if (token === "(") {
+      const inner = parseOr();
+      return tokens[position++] === ")" ? inner : undefined;
+    }
+    if (!token || token === ")" || isOperator(token)) {
+      return undefined;
+    }
+    if (peek() !== "WITH") {
+      return { kind: "license", id: token };
+    }
+    position++;
+    const exception = tokens[position++];
+    return exception && exception !== "(" && exception !== ")" && !isOperator(exception)
+      ? { kind: "license", id: token, exception }
+      : undefined;
+  };
+
+  const expression = parseOr();
+  return expression && position === tokens.length ? expression : undefined;
+}
+
+/**
+ * Checks an SPDX expression against a policy. Returns the licenses that
+ * break it, which is empty when some choice of `OR` alternatives complies,
+ * or undefined when the expression cannot be parsed.
+ */
+export function checkLicense(expression: string, policy: LicensePolicy): string[] | undefined {
+  const parsed = parseLicenseExpression(expression);
+  return parsed && findViolations(parsed, policy);
+}
+
+function findViolations(expression: LicenseExpression, policy: LicensePolicy): string[] {
+  switch (expression.kind) {
+    case "license": {
+      const names = expression.exception
+        ? [`${expression.id} WITH ${expression.exception}`, expression.id]
+        : [expression.id];
+      const denied = names.some(name => policy.denied.some(pattern => matchesPattern(name, pattern)));
+      const allowed = policy.allowed.length === 0 ||
+        names.some(name => policy.allowed.some(pattern => matchesPattern(name, pattern)));
+      return denied || !allowed ? [names[0]] : [];
+    }
+    case "and":
+      return [...findViolations(expression.left, policy), ...findViolations(expression.right, policy)];
+    case "or": {
+      const left = findViolations(expression.left, policy);
+      const right = findViolations(expression.right, policy);
+      return left.length === 0 || right.length === 0 ? [] : [...left, ...right];
+    }
+  }
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .trim()
+    .split("*")
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(name);
+}
+
+function isOperator(token: string): boolean {
+  return ["AND", "OR", "WITH"].includes(token.toUpperCase());
+}
@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as path from "path";
+import { NuGetPackage } from "./feedClient";
+import { compareVersions } from "./versions";
+import { attribute, childElement, childElements, parseXml } from "./xml";
+
+// Listing a large global packages folder is cheap but not free; reuse it briefly
+const LISTING_CACHE_DURATION = 30 * 1000;
+
+/**
+ * Reads packages from a folder laid out like the NuGet global packages
+ * folder: `<id>/<version>/<id>.nuspec`, with lowercase directory names.
+ */
+export class LocalPackageFolder {
+  private listing?: { ids: string[]; expiry: number };
+  private nuspecCache = new Map<string, NuGetPackage | undefined>();
+
+  constructor(readonly folderPath: string, readonly name: string) {}
+
+  search(query: string, take: number): NuGetPackage[] {
+    const lowerQuery = query.toLowerCase();
+    return this.listPackageIds()
+      .filter(id => id.includes(lowerQuery))
+      // Prefix matches first, then shorter ids, mirroring how search ranks exact hits
+      .sort((a, b) =>
+        Number(b.startsWith(lowerQuery)) - Number(a.startsWith(lowerQuery)) || a.length - b.length
+      )
+      .slice(0, take)
+      .map(id => this.getPackage(id))
+      .filter((pkg): pkg is NuGetPackage => pkg !== undefined);
+  }
+
+  getVersions(packageId: string): string[] {
+    const packageDirectory = path.join(this.folderPath, packageId.toLowerCase());
+    try {
+      return fs.readdirSync(packageDirectory).filter(version =>
+        // A version directory without its nuspec is an interrupted extraction
+        fs.existsSync(path.join(packageDirectory, version, `${packageId.toLowerCase()}.nuspec`))
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  getPackage(packageId: string): NuGetPackage | undefined {
+    const versions = this.getVersions(packageId).sort(compareVersions);
+    const latest = versions[versions.length - 1];
+    if (!latest) {
+      return undefined;
+    }
+
+    const lowerId = packageId.toLowerCase();
+    const nuspecPath = path.join(this.folderPath, lowerId, latest, `${lowerId}.nuspec`);
+    if (!this.nuspecCache.has(nuspecPath)) {
+      this.nuspecCache.set(nuspecPath, this.readNuspec(nuspecPath));
+    }
+    const pkg = this.nuspecCache.get(nuspecPath);
+    return pkg ? { ...pkg, source: this.name, installedLocally: true } : undefined;
+  }
+
+  private readNuspec(nuspecPath: string): NuGetPackage | undefined {
+    try {
+      const metadata = childElement(parseXml(fs.readFileSync(nuspecPath, "utf8")), "metadata");
+      const id = childElement(metadata, "id")?.text.trim();
+      const version = childElement(metadata, "version")?.text.trim();
+      if (!id || !version) {
+        return undefined;
+      }
+      const packageTypes = childElements(childElement(metadata, "packageTypes"), "packageType")
+        .map(element => attribute(element, "name"))
+        .filter((name): name is string => !!name);
+      return {
+        id,
+        version,
+        description: childElement(metadata, "description")?.text.trim() || undefined,
+        packageTypes: packageTypes.length > 0 ? packageTypes : undefined
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private listPackageIds(): string[] {
+    if (this.listing && this.listing.expiry > Date.now()) {
+      return this.listing.ids;
+    }
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.folderPath, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith("."))
+        .map(entry => entry.name);
+    } catch {
+      ids = [];
+    }
+    this.listing = { ids, expiry: Date.now() + LISTING_CACHE_DURATION };
+    return ids;
+  }
+}
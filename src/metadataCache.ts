@@ -0,0 +1,266 @@
+import axios, { AxiosRequestConfig } from "axios";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { isCancellation, RequestScheduler } from "./requestScheduler";
+
+/** Thrown when a request needs the network while offline mode is on and nothing is cached. */
+export class OfflineError extends Error {
+  constructor(readonly url: string) {
+    super(`Offline: no cached response for ${url}`);
+    this.name = "OfflineError";
+  }
+}
+
+export interface CachedRequestOptions {
+  /** How long a stored response is served without revalidation, in milliseconds. */
+  maxAge: number;
+  config?: AxiosRequestConfig;
+  /** Aborts this caller's wait; the request itself is shared with other callers. */
+  signal?: AbortSignal;
+}
+
+interface CacheEntryInfo {
+  file: string;
+  size: number;
+  status: number;
+  storedAt: number;
+  lastAccess: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+const INDEX_FILE = "index.json";
+// Parsed responses kept in memory on top of the disk cache
+const MEMORY_ENTRIES = 200;
+const INDEX_SAVE_DELAY = 1000;
+
+/**
+ * On-disk HTTP cache for feed metadata (service indexes, search results,
+ * version lists, registration pages). Fresh entries are served directly,
+ * stale ones are revalidated with ETag/Last-Modified, and any stored entry
+ * is served when the network is unreachable or offline mode is on.
+ */
+export class MetadataCache {
+  private index: Record<string, CacheEntryInfo> = {};
+  private memory = new Map<string, unknown>();
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly directory: string,
+    private readonly getMaxSize: () => number,
+    private readonly isOffline: () => boolean,
+    private readonly scheduler: RequestScheduler
+  ) {
+    try {
+      fs.mkdirSync(directory, { recursive: true });
+      this.index = JSON.parse(fs.readFileSync(path.join(directory, INDEX_FILE), "utf8"));
+    } catch {
+      // Missing or corrupt index: start with an empty cache
+      this.index = {};
+    }
+  }
+
+  /** Returns the response body, or undefined when the server answered 404. */
+  async get<T>(url: string, options: CachedRequestOptions): Promise<T | undefined> {
+    const config = options.config ?? {};
+    const key = this.getKey(url, config);
+    const info = this.index[key];
+    const offline = this.isOffline();
+
+    if (info && (offline || Date.now() - info.storedAt < options.maxAge)) {
+      const cached = await this.read<T>(key, info);
+      if (cached.found) {
+        return cached.data;
+      }
+    }
+    if (offline) {
+      throw new OfflineError(url);
+    }
+
+    try {
+      // Identical concurrent requests share one download
+      return await this.scheduler.run(
+        key,
+        (signal) => this.fetch<T>(key, url, { ...config, signal }),
+        options.signal
+      );
+    } catch (error) {
+      if (isCancellation(error)) {
+        throw error;
+      }
+      // Serve a stale copy rather than nothing when the feed is unreachable
+      if (info) {
+        const cached = await this.read<T>(key, info);
+        if (cached.found) {
+          return cached.data;
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async fetch<T>(key: string, url: string, config: AxiosRequestConfig): Promise<T | undefined> {
+    const info = this.index[key];
+    const headers: Record<string, string> = {};
+    if (info?.etag) {
+      headers["If-None-Match"] = info.etag;
+    }
+    if (info?.lastModified) {
+      headers["If-Modified-Since"] = info.lastModified;
+    }
+
+    const response = await axios.get<T>(url, {
+      ...config,
+      headers: { ...config.headers, ...headers },
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304 || status === 404,
+    });
+
+    if (response.status === 304 && info) {
+      const cached = await this.read<T>(key, info);
+      if (cached.found) {
+        info.storedAt = Date.now();
+        this.scheduleSave();
+        return cached.data;
+      }
+    }
+
+    const data = response.status === 404 ? undefined : response.data;
+    await this.write(key, response.status === 304 ? 200 : response.status, data, {
+      etag: header(response.headers, "etag"),
+      lastModified: header(response.headers, "last-modified"),
+    });
+    return data;
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    const files = Object.values(this.index).map((info) => info.file);
+    this.index = {};
+    await Promise.all(
+      files.map((file) => fs.promises.rm(path.join(this.directory, file), { force: true }))
+    );
+    this.saveIndex();
+  }
+
+  get size(): number {
+    return Object.values(this.index).reduce((total, info) => total + info.size, 0);
+  }
+
+  private getKey(url: string, config: AxiosRequestConfig): string {
+    // Different credentials can see different packages on the same feed
+    const user = config.auth?.username ?? "";
+    return `${axios.getUri({ url, params: config.params })}|${user}`;
+  }
+
+  private async read<T>(key: string, info: CacheEntryInfo): Promise<{ found: boolean; data?: T }> {
+    info.lastAccess = Date.now();
+    this.scheduleSave();
+
+    if (this.memory.has(key)) {
+      const data = this.memory.get(key) as T;
+      // Re-insert to keep the map in least-recently-used order
+      this.memory.delete(key);
+      this.memory.set(key, data);
+      return { found: true, data: info.status === 404 ? undefined : data };
+    }
+
+    try {
+      const content = await fs.promises.readFile(path.join(this.directory, info.file), "utf8");
+      const data = JSON.parse(content) as T;
+      this.remember(key, data);
+      return { found: true, data: info.status === 404 ? undefined : data };
+    } catch {
+      delete this.index[key];
+      return { found: false };
+    }
+  }
+
+  private async write(
+    key: string,
+    status: number,
+    data: unknown,
+    validators: { etag?: string; lastModified?: string }
+  ): Promise<void> {
+    const file = `${crypto.createHash("sha1").update(key).digest("hex")}.json`;
+    const content = JSON.stringify(data ?? null);
+    try {
+      await fs.promises.writeFile(path.join(this.directory, file), content, "utf8");
+    } catch (error) {
+      console.error("Failed to write package metadata cache:", error);
+      return;
+    }
+
+    const now = Date.now();
+    this.index[key] = {
+      file,
+      size: Buffer.byteLength(content),
+      status,
+      storedAt: now,
+      lastAccess: now,
+      ...validators,
+    };
+    this.remember(key, data ?? null);
+    await this.evict();
+    this.scheduleSave();
+  }
+
+  private remember(key: string, data: unknown) {
+    this.memory.delete(key);
+    this.memory.set(key, data);
+    if (this.memory.size > MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+
+  /** Drops least recently used entries until the cache fits its size limit. */
+  private async evict(): Promise<void> {
+    const maxSize = this.getMaxSize();
+    let size = this.size;
+    if (size <= maxSize) {
+      return;
+    }
+
+    const entries = Object.entries(this.index).sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+    for (const [key, info] of entries) {
+      if (size <= maxSize * 0.9) {
+        break;
+      }
+      delete this.index[key];
+      this.memory.delete(key);
+      size -= info.size;
+      await fs.promises.rm(path.join(this.directory, info.file), { force: true });
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveIndex();
+    }, INDEX_SAVE_DELAY);
+  }
+
+  private saveIndex() {
+    try {
+      fs.writeFileSync(path.join(this.directory, INDEX_FILE), JSON.stringify(this.index), "utf8");
+    } catch (error) {
+      console.error("Failed to save package metadata cache index:", error);
+    }
+  }
+
+  dispose() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.saveIndex();
+    }
+  }
+}
+
+function header(headers: unknown, name: string): string | undefined {
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
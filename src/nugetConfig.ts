@@ -0,0 +1,280 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { attribute, childElement, childElements, parseXml, XmlElement } from "./xml";
+
+export interface PackageSourceCredentials {
+  username: string;
+  password: string;
+}
+
+export interface PackageSource {
+  name: string;
+  url: string;
+  credentials?: PackageSourceCredentials;
+}
+
+export const NUGET_ORG_SOURCE: PackageSource = {
+  name: "nuget.org",
+  url: "https://api.nuget.org/v3/index.json"
+};
+
+const CONFIG_FILE_NAMES = ["nuget.config", "NuGet.config", "NuGet.Config"];
+
+/**
+ * Returns the config files that apply to a directory, ordered from the
+ * lowest priority (machine-wide) to the highest (closest to the file),
+ * which is the order NuGet applies them in.
+ */
+export function getConfigFilePaths(directory: string): string[] {
+  const directoryConfigs: string[] = [];
+  let current = path.resolve(directory);
+  while (true) {
+    const configPath = findConfigInDirectory(current);
+    if (configPath) {
+      directoryConfigs.push(configPath);
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      break;
+    }
+    current = parent;
+  }
+
+  const userConfig = getUserConfigPath();
+  const userConfigs = userConfig && fs.existsSync(userConfig) && !directoryConfigs.includes(userConfig)
+    ? [userConfig]
+    : [];
+
+  return [...getMachineConfigPaths(), ...userConfigs, ...directoryConfigs.reverse()];
+}
+
+function findConfigInDirectory(directory: string): string | undefined {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(directory);
+  } catch {
+    return undefined;
+  }
+  const name = CONFIG_FILE_NAMES.find(n => entries.includes(n));
+  return name ? path.join(directory, name) : undefined;
+}
+
+function getUserConfigPath(): string | undefined {
+  if (process.platform === "win32") {
+    return process.env.APPDATA
+      ? path.join(process.env.APPDATA, "NuGet", "NuGet.Config")
+      : undefined;
+  }
+  return path.join(os.homedir(), ".nuget", "NuGet", "NuGet.Config");
+}
+
+function getMachineConfigPaths(): string[] {
+  let directory: string | undefined;
+  if (process.platform === "win32") {
+    const programFiles = process.env["ProgramFiles(x86)"] || process.env.ProgramFiles;
+    directory = programFiles ? path.join(programFiles, "NuGet", "Config") : undefined;
+  } else if (process.platform === "darwin") {
+    directory = "/Library/Application Support/NuGet/Config";
+  } else {
+    directory = process.env.NUGET_COMMON_APPLICATION_DATA
+      ? path.join(process.env.NUGET_COMMON_APPLICATION_DATA, "NuGet", "Config")
+      : "/etc/opt/NuGet/Config";
+  }
+
+  if (!directory) {
+    return [];
+  }
+  const configDirectory = directory;
+  try {
+    return fs.readdirSync(configDirectory)
+      .filter(f => f.toLowerCase().endsWith(".config"))
+      .sort()
+      .map(f => path.join(configDirectory, f));
+  } catch {
+    return [];
+  }
+}
+
+/** Expands `%VAR%` references the same way NuGet does for config values. */
+function expandEnvironmentVariables(value: string): string {
+  return value.replace(/%([^%]+)%/g, (text, name: string) => process.env[name] ?? text);
+}
+
+/** Credential elements are named after the source, with spaces encoded as `_x0020_`. */
+function decodeSourceName(elementName: string): string {
+  return elementName.replace(/_x([0-9a-fA-F]{4})_/g, (_, code: string) =>
+    String.fromCharCode(parseInt(code, 16))
+  );
+}
+
+function readAddEntries(section: XmlElement | undefined): Array<{ key: string; value: string }> {
+  return childElements(section, "add")
+    .map(e => ({ key: attribute(e, "key") ?? "", value: attribute(e, "value") ?? "" }))
+    .filter(e => e.key);
+}
+
+function readConfig(configPath: string): XmlElement | undefined {
+  try {
+    return parseXml(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    console.error(`Failed to read NuGet config ${configPath}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Resolves the enabled package sources for files in `directory`, applying
+ * `<packageSources>` (including `<clear/>`), `<disabledPackageSources>` and
+ * `<packageSourceCredentials>` across the whole config hierarchy.
+ */
+export function readPackageSources(directory: string): PackageSource[] {
+  const configPaths = getConfigFilePaths(directory);
+  if (configPaths.length === 0) {
+    return [NUGET_ORG_SOURCE];
+  }
+
+  // Keyed by lowercase source name, preserving declaration order
+  const sources = new Map<string, PackageSource>();
+  const disabled = new Map<string, boolean>();
+  const credentials = new Map<string, PackageSourceCredentials>();
+  let hasPackageSources = false;
+
+  for (const configPath of configPaths) {
+    const configuration = readConfig(configPath);
+    if (!configuration) {
+      continue;
+    }
+
+    const packageSources = childElement(configuration, "packageSources");
+    hasPackageSources ||= packageSources !== undefined;
+    for (const child of packageSources?.children ?? []) {
+      const elementName = child.name.toLowerCase();
+      if (elementName === "clear") {
+        sources.clear();
+      } else if (elementName === "add") {
+        const name = attribute(child, "key");
+        const value = attribute(child, "value");
+        if (!name || !value) {
+          continue;
+        }
+        const url = resolveSourceUrl(expandEnvironmentVariables(value), path.dirname(configPath));
+        const key = name.toLowerCase();
+        // Re-adding a source moves it to the position of the closer config
+        sources.delete(key);
+        sources.set(key, { name, url });
+      } else if (elementName === "remove") {
+        const name = attribute(child, "key");
+        if (name) {
+          sources.delete(name.toLowerCase());
+        }
+      }
+    }
+
+    const disabledSources = childElement(configuration, "disabledPackageSources");
+    if (disabledSources && childElement(disabledSources, "clear")) {
+      disabled.clear();
+    }
+    for (const { key, value } of readAddEntries(disabledSources)) {
+      disabled.set(key.toLowerCase(), value.toLowerCase() === "true");
+    }
+
+    for (const sourceElement of childElement(configuration, "packageSourceCredentials")?.children ?? []) {
+      const entries = readAddEntries(sourceElement);
+      const get = (name: string) =>
+        entries.find(e => e.key.toLowerCase() === name.toLowerCase())?.value;
+      const username = get("Username");
+      const password = get("ClearTextPassword");
+      if (get("Password") && !password) {
+        // Encrypted passwords rely on Windows DPAPI and cannot be read here
+        console.warn(
+          `Encrypted password for source "${decodeSourceName(sourceElement.name)}" in ${configPath} is not supported; use ClearTextPassword with an environment variable instead.`
+        );
+      }
+      if (username !== undefined && password !== undefined) {
+        credentials.set(decodeSourceName(sourceElement.name).toLowerCase(), {
+          username: expandEnvironmentVariables(username),
+          password: expandEnvironmentVariables(password)
+        });
+      }
+    }
+  }
+
+  // Without any <packageSources> section NuGet falls back to nuget.org
+  if (!hasPackageSources) {
+    return [NUGET_ORG_SOURCE];
+  }
+
+  return Array.from(sources.entries())
+    .filter(([key]) => !disabled.get(key))
+    .map(([key, source]) => {
+      const sourceCredentials = credentials.get(key);
+      return sourceCredentials ? { ...source, credentials: sourceCredentials } : source;
+    });
+}
+
+export interface PackageFolders {
+  globalPackagesFolder: string;
+  fallbackPackageFolders: string[];
+}
+
+/**
+ * Resolves the global packages folder and fallback package folders for
+ * files in `directory`. The `NUGET_PACKAGES` and `NUGET_FALLBACK_PACKAGES`
+ * environment variables win over config, as they do for restore.
+ */
+export function readPackageFolders(directory: string): PackageFolders {
+  let globalPackagesFolder: string | undefined;
+  let fallbackPackageFolders: string[] = [];
+
+  for (const configPath of getConfigFilePaths(directory)) {
+    const configuration = readConfig(configPath);
+    if (!configuration) {
+      continue;
+    }
+    const configDirectory = path.dirname(configPath);
+
+    const globalSetting = readAddEntries(childElement(configuration, "config"))
+      .find(e => e.key.toLowerCase() === "globalpackagesfolder");
+    if (globalSetting?.value) {
+      globalPackagesFolder = path.resolve(configDirectory, expandEnvironmentVariables(globalSetting.value));
+    }
+
+    const fallbackSection = childElement(configuration, "fallbackPackageFolders");
+    for (const child of fallbackSection?.children ?? []) {
+      const elementName = child.name.toLowerCase();
+      if (elementName === "clear") {
+        fallbackPackageFolders = [];
+      } else if (elementName === "add") {
+        const value = attribute(child, "value");
+        if (value) {
+          fallbackPackageFolders.push(path.resolve(configDirectory, expandEnvironmentVariables(value)));
+        }
+      }
+    }
+  }
+
+  if (process.env.NUGET_PACKAGES) {
+    globalPackagesFolder = process.env.NUGET_PACKAGES;
+  }
+  if (process.env.NUGET_FALLBACK_PACKAGES) {
+    fallbackPackageFolders = process.env.NUGET_FALLBACK_PACKAGES.split(path.delimiter).filter(Boolean);
+  }
+
+  return {
+    globalPackagesFolder: globalPackagesFolder ?? path.join(os.homedir(), ".nuget", "packages"),
+    fallbackPackageFolders: Array.from(new Set(fallbackPackageFolders))
+  };
+}
+
+function resolveSourceUrl(value: string, configDirectory: string): string {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    return value;
+  }
+  // Local folder feeds may be declared relative to the config file
+  return path.resolve(configDirectory, value);
+}
+
+export function isHttpSource(source: PackageSource): boolean {
+  return /^https?:\/\//i.test(source.url);
+}
@@ -0,0 +1,205 @@
+import * as vscode from "vscode";
+import { CentralPackageService } from "./centralPackages";
+import { DirectiveMetadataRegistry } from "./directiveMetadata";
+import { parseDirectives } from "./directiveParser";
+import { RegistrationCatalogEntry } from "./feedClient";
+import { getHighestVulnerabilitySeverity } from "./packageHealth";
+import { PackageSourceService } from "./packageSources";
+import { getUpdateLevel } from "./packageUpdates";
+import { abortSignalFromToken, isCancellation } from "./requestScheduler";
+import { parseTargetFramework, selectDependencyGroup } from "./targetFrameworks";
+import { findLatestVersion, findUpdate, isFloatingOrRange } from "./versions";
+
+interface PackageLensInfo {
+  latestVersion?: string;
+  update?: string;
+  entry?: RegistrationCatalogEntry;
+}
+
+class PackageCodeLens extends vscode.CodeLens {
+  constructor(
+    range: vscode.Range,
+    readonly kind: "version" | "details",
+    readonly uri: vscode.Uri,
+    readonly packageId: string,
+    /** The pinned version, or the central one when the directive has none. */
+    readonly version: string | undefined,
+    readonly targetFramework: string
+  ) {
+    super(range);
+  }
+}
+
+/**
+ * Shows the latest version, health and dependency count above each
+ * `#:package` line. Lenses are created without data and only resolved when
+ * they scroll into view, so long scripts do not query every package at once.
+ */
+export class PackageCodeLensProvider implements vscode.CodeLensProvider<PackageCodeLens>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  // Both lenses of a line share one lookup
+  private lookups = new Map<string, Promise<PackageLensInfo | undefined>>();
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly metadata: DirectiveMetadataRegistry,
+    private readonly centralPackages: CentralPackageService
+  ) {
+    const refresh = () => {
+      this.lookups.clear();
+      this.changeEmitter.fire();
+    };
+    this.disposables.push(
+      metadata.onDidChange(refresh),
+      centralPackages.onDidChange(refresh),
+      vscode.workspace.onDidCloseTextDocument(document => {
+        const prefix = `${document.uri}|`.toLowerCase();
+        for (const key of this.lookups.keys()) {
+          if (key.startsWith(prefix)) {
+            this.lookups.delete(key);
+          }
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration("csharpPackageAutocomplete")) {
+          refresh();
+        }
+      })
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): PackageCodeLens[] {
+    const enabled = vscode.workspace
+      .getConfiguration("csharpPackageAutocomplete.codeLens", document.uri)
+      .get<boolean>("enabled", true);
+    if (!enabled) {
+      return [];
+    }
+
+    const { directives } = parseDirectives(document.getText());
+    const targetFramework = this.metadata.getTargetFramework(directives, document.uri);
+    const lenses: PackageCodeLens[] = [];
+    for (const directive of directives) {
+      if (directive.kind !== "package" || directive.errors.length > 0 || !directive.id) {
+        continue;
+      }
+      const packageId = directive.id.text;
+      const version = directive.version?.text ?? this.centralPackages.getCentralVersion(document.uri, packageId)?.version;
+      const range = new vscode.Range(directive.line, directive.start, directive.line, directive.end);
+      for (const kind of ["version", "details"] as const) {
+        lenses.push(new PackageCodeLens(range, kind, document.uri, packageId, version, targetFramework));
+      }
+    }
+    return lenses;
+  }
+
+  async resolveCodeLens(lens: PackageCodeLens, token: vscode.CancellationToken): Promise<PackageCodeLens> {
+    const signal = abortSignalFromToken(token);
+    let info: PackageLensInfo | undefined;
+    try {
+      // A lookup shared with a lens whose resolve was canceled is restarted
+      info = await this.lookup(lens, signal).catch(error =>
+        isCancellation(error) && !token.isCancellationRequested ? this.lookup(lens, signal) : Promise.reject(error)
+      );
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error(`Failed to load CodeLens for ${lens.packageId}:`, error);
+      }
+    }
+
+    const version = lens.version ?? info?.latestVersion;
+    const openPackage = {
+      command: "vscode.open",
+      arguments: [vscode.Uri.parse(`https://www.nuget.org/packages/${lens.packageId}${version ? `/${version}` : ""}`)]
+    };
+    // Lenses cannot be dropped once resolved, so one with nothing to report links to the package
+    const openOnly = { title: "$(link-external) open on NuGet", tooltip: "Open on NuGet", ...openPackage };
+
+    if (!info?.latestVersion) {
+      lens.command = lens.kind === "version"
+        ? { ...openOnly, title: "$(cloud-offline) package info unavailable" }
+        : openOnly;
+      return lens;
+    }
+
+    if (lens.kind === "version") {
+      lens.command = info.update
+        ? {
+            title: `latest: ${info.latestVersion} · $(arrow-up) update available`,
+            tooltip: `Update ${lens.packageId} to ${info.update}`,
+            command: "csharpPackageAutocomplete.updatePackage",
+            arguments: [lens.uri, lens.range.start.line, info.update]
+          }
+        : { title: `latest: ${info.latestVersion}`, tooltip: "Open on NuGet", ...openPackage };
+      return lens;
+    }
+
+    const badges: string[] = [];
+    const severity = info.entry && getHighestVulnerabilitySeverity(info.entry);
+    const vulnerabilities = info.entry?.vulnerabilities ?? [];
+    if (severity && vulnerabilities.length) {
+      const count = vulnerabilities.length;
+      badges.push(`$(warning) ${count} ${count === 1 ? "vulnerability" : "vulnerabilities"} (${severity})`);
+    }
+    if (info.entry?.deprecation) {
+      badges.push("$(circle-slash) deprecated");
+    }
+    const dependencyCount = this.countDependencies(info.entry, lens.targetFramework);
+    if (dependencyCount !== undefined) {
+      const label = dependencyCount === 0 ? "no dependencies" : `${dependencyCount} ${dependencyCount === 1 ? "dependency" : "dependencies"}`;
+      badges.push(`${label} for ${lens.targetFramework}`);
+    }
+    lens.command = badges.length > 0
+      ? { title: badges.join(" · "), tooltip: "Open on NuGet", ...openPackage }
+      : openOnly;
+    return lens;
+  }
+
+  private lookup(lens: PackageCodeLens, signal?: AbortSignal): Promise<PackageLensInfo | undefined> {
+    const key = `${lens.uri}|${lens.packageId}|${lens.version ?? ""}`.toLowerCase();
+    let lookup = this.lookups.get(key);
+    if (!lookup) {
+      lookup = this.load(lens, signal);
+      this.lookups.set(key, lookup);
+      // Let a later resolve retry after a cancellation or failure
+      lookup.catch(() => this.lookups.delete(key));
+    }
+    return lookup;
+  }
+
+  private async load(lens: PackageCodeLens, signal?: AbortSignal): Promise<PackageLensInfo | undefined> {
+    const versions = await this.packageSources.lookupVersions(lens.uri, lens.packageId, signal) ?? [];
+    const latestVersion = findLatestVersion(versions);
+    if (!latestVersion) {
+      return undefined;
+    }
+
+    const pinned = lens.version && !isFloatingOrRange(lens.version) ? lens.version : undefined;
+    const update = pinned ? findUpdate(pinned, versions, getUpdateLevel(lens.uri)) : undefined;
+    const entry = await this.packageSources
+      .getCatalogEntry(lens.uri, lens.packageId, pinned ?? latestVersion, signal)
+      .catch(error => {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        return undefined;
+      });
+    return { latestVersion, update, entry };
+  }
+
+  private countDependencies(entry: RegistrationCatalogEntry | undefined, targetFramework: string): number | undefined {
+    const framework = parseTargetFramework(targetFramework);
+    if (!entry || !framework) {
+      return undefined;
+    }
+    const group = selectDependencyGroup(entry.dependencyGroups ?? [], framework);
+    return group?.dependencies?.length ?? 0;
+  }
+
+  dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
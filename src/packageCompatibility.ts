@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import { PackageSourceService } from "./packageSources";
+import { isCancellation } from "./requestScheduler";
+import { parseTargetFramework, supportsFramework } from "./targetFrameworks";
+import { compareVersions, isPrerelease } from "./versions";
+
+// Registration lookups made while searching for a compatible version
+const MAX_VERSIONS_CHECKED = 20;
+// Versions looked up at once, newest first
+const LOOKUP_BATCH_SIZE = 5;
+
+/**
+ * Whether a package version supports the target framework, judged by its
+ * dependency groups. Undefined when that cannot be determined: unknown
+ * framework, no registration metadata, or no declared groups.
+ */
+export async function isCompatibleVersion(
+  packageSources: PackageSourceService,
+  uri: vscode.Uri,
+  packageId: string,
+  version: string,
+  targetFramework: string,
+  signal?: AbortSignal
+): Promise<boolean | undefined> {
+  const framework = parseTargetFramework(targetFramework);
+  if (!framework) {
+    return undefined;
+  }
+  try {
+    const entry = await packageSources.getCatalogEntry(uri, packageId, version, signal);
+    return entry ? supportsFramework(entry.dependencyGroups ?? [], framework) : undefined;
+  } catch (error) {
+    if (isCancellation(error)) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * The newest version that is known to support the target framework.
+ * Prereleases are only considered when `includePrerelease` is set.
+ */
+export async function findNewestCompatibleVersion(
+  packageSources: PackageSourceService,
+  uri: vscode.Uri,
+  packageId: string,
+  versions: string[],
+  targetFramework: string,
+  includePrerelease: boolean,
+  signal?: AbortSignal
+): Promise<string | undefined> {
+  const candidates = versions
+    .filter(version => includePrerelease || !isPrerelease(version))
+    .sort((a, b) => compareVersions(b, a))
+    .slice(0, MAX_VERSIONS_CHECKED);
+  for (let i = 0; i < candidates.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = candidates.slice(i, i + LOOKUP_BATCH_SIZE);
+    const compatibility = await Promise.all(batch.map(version =>
+      isCompatibleVersion(packageSources, uri, packageId, version, targetFramework, signal)));
+    const index = compatibility.indexOf(true);
+    if (index >= 0) {
+      return batch[index];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import { RegistrationCatalogEntry } from "./feedClient";
+import { checkLicense, LicensePolicy } from "./licenses";
+
+const VULNERABILITY_SEVERITIES = ["Low", "Moderate", "High", "Critical"];
+
+export function getVulnerabilitySeverityName(severity: string): string {
+  return VULNERABILITY_SEVERITIES[Number(severity)] ?? "Unknown";
+}
+
+/** Returns the highest advisory severity of a version, or undefined if it has none. */
+export function getHighestVulnerabilitySeverity(entry: RegistrationCatalogEntry): string | undefined {
+  const severities = (entry.vulnerabilities ?? []).map(v => Number(v.severity));
+  return severities.length > 0
+    ? getVulnerabilitySeverityName(String(Math.max(...severities)))
+    : undefined;
+}
+
+export function describeVulnerabilities(entry: RegistrationCatalogEntry): string | undefined {
+  const vulnerabilities = entry.vulnerabilities ?? [];
+  if (vulnerabilities.length === 0) {
+    return undefined;
+  }
+  const count = vulnerabilities.length === 1 ? "a known vulnerability" : `${vulnerabilities.length} known vulnerabilities`;
+  return `${entry.id} ${entry.version} has ${count} (highest severity: ${getHighestVulnerabilitySeverity(entry)}).`;
+}
+
+export function describeDeprecation(entry: RegistrationCatalogEntry): string | undefined {
+  const deprecation = entry.deprecation;
+  if (!deprecation) {
+    return undefined;
+  }
+  let description = `${entry.id} ${entry.version} is deprecated`;
+  if (deprecation.reasons?.length) {
+    description += ` (${deprecation.reasons.join(", ")})`;
+  }
+  description += ".";
+  if (deprecation.alternatePackage) {
+    description += ` Use ${deprecation.alternatePackage.id} instead.`;
+  }
+  return description;
+}
+
+export function getLicensePolicy(uri: vscode.Uri): LicensePolicy {
+  const configuration = vscode.workspace.getConfiguration("csharpPackageAutocomplete.diagnostics", uri);
+  return {
+    allowed: configuration.get<string[]>("allowedLicenses", []),
+    denied: configuration.get<string[]>("deniedLicenses", [])
+  };
+}
+
+/** Describes why a version breaks the license policy, or returns undefined if it complies. */
+export function describeLicenseViolation(entry: RegistrationCatalogEntry, policy: LicensePolicy): string | undefined {
+  const rejected = entry.licenseExpression ? checkLicense(entry.licenseExpression, policy) : undefined;
+  if (!rejected || rejected.length === 0) {
+    return undefined;
+  }
+  return `${entry.id} ${entry.version} is licensed under ${entry.licenseExpression}, ` +
+    `which the license policy does not allow (${rejected.join(", ")}).`;
+}
+
+/**
+ * Describes a version whose license cannot be checked against a policy
+ * that has an allow list: no SPDX expression, or an unparsable one.
+ */
+export function describeUncheckedLicense(entry: RegistrationCatalogEntry, policy: LicensePolicy): string | undefined {
+  if (policy.allowed.length === 0 || (entry.licenseExpression && checkLicense(entry.licenseExpression, policy))) {
+    return undefined;
+  }
+  const reason = entry.licenseExpression
+    ? `an unrecognized license expression (${entry.licenseExpression})`
+    : `no SPDX license expression${entry.licenseUrl ? ` (license: ${entry.licenseUrl})` : ""}`;
+  return `${entry.id} ${entry.version} has ${reason}, so it cannot be checked against the allowed licenses.`;
+}
+
+/** Appends the license of a version to a hover or completion documentation block. */
+export function appendPackageLicense(markdown: vscode.MarkdownString, entry: RegistrationCatalogEntry) {
+  if (entry.licenseExpression) {
+    const url = entry.licenseUrl ?? `https://licenses.nuget.org/${encodeURIComponent(entry.licenseExpression)}`;
+    markdown.appendMarkdown(`License: [\`${entry.licenseExpression}\`](${url})\n\n`);
+  } else if (entry.licenseUrl) {
+    markdown.appendMarkdown(`License: [${entry.licenseUrl}](${entry.licenseUrl})\n\n`);
+  }
+}
+
+/**
+ * Appends the vulnerability and deprecation details of a version to a
+ * hover or completion documentation block.
+ */
+export function appendPackageHealth(markdown: vscode.MarkdownString, entry: RegistrationCatalogEntry) {
+  const vulnerabilities = entry.vulnerabilities ?? [];
+  if (vulnerabilities.length > 0) {
+    markdown.appendMarkdown(`⚠️ **Known vulnerabilities in ${entry.version}:**\n\n`);
+    for (const vulnerability of vulnerabilities) {
+      markdown.appendMarkdown(
+        `- ${getVulnerabilitySeverityName(vulnerability.severity)}: [advisory](${vulnerability.advisoryUrl})\n`
+      );
+    }
+    markdown.appendMarkdown("\n");
+  }
+
+  const deprecation = entry.deprecation;
+  if (deprecation) {
+    markdown.appendMarkdown(`⚠️ **Deprecated**`);
+    if (deprecation.reasons?.length) {
+      markdown.appendMarkdown(` (${deprecation.reasons.join(", ")})`);
+    }
+    markdown.appendMarkdown("\n\n");
+    if (deprecation.message) {
+      markdown.appendText(`${deprecation.message}\n\n`);
+    }
+    if (deprecation.alternatePackage) {
+      const { id, range } = deprecation.alternatePackage;
+      markdown.appendMarkdown(`Alternate package: \`${id}\`${range && range !== "*" ? ` \`${range}\`` : ""}\n\n`);
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { NuGetFeedClient, NuGetPackage, RegistrationCatalogEntry } from "./feedClient";
+import { LocalPackageFolder } from "./localPackages";
+import { MetadataCache, OfflineError } from "./metadataCache";
+import { isHttpSource, PackageFolders, PackageSource, readPackageFolders, readPackageSources } from "./nugetConfig";
+import { isCancellation, RequestCanceledError } from "./requestScheduler";
+import { getFeedSettings } from "./settings";
+import { normalizeVersion } from "./versions";
+
+/**
+ * Resolves which feeds apply to a document (via its nuget.config hierarchy)
+ * and fans package queries out to all of them, merging the results with
+ * what is already installed in the global packages and fallback folders.
+ */
+export class PackageSourceService implements vscode.Disposable {
+  private sourcesByDirectory = new Map<string, PackageSource[]>();
+  private clients = new Map<string, NuGetFeedClient>();
+  private foldersByDirectory = new Map<string, PackageFolders>();
+  private localFolders = new Map<string, LocalPackageFolder>();
+  private watcher: vscode.FileSystemWatcher;
+  private configurationListener: vscode.Disposable;
+
+  constructor(private readonly cache: MetadataCache) {
+    // Any nuget.config change can affect every directory below it, so start over
+    this.watcher = vscode.workspace.createFileSystemWatcher("**/[Nn]u[Gg]et.[Cc]onfig");
+    const reset = () => {
+      this.sourcesByDirectory.clear();
+      this.foldersByDirectory.clear();
+      this.clients.clear();
+    };
+    this.watcher.onDidChange(reset);
+    this.watcher.onDidCreate(reset);
+    this.watcher.onDidDelete(reset);
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration("csharpPackageAutocomplete.feeds.additionalSources")) {
+        reset();
+      }
+    });
+  }
+
+  getSources(uri: vscode.Uri): PackageSource[] {
+    const directory = this.getDirectory(uri);
+    let sources = this.sourcesByDirectory.get(directory);
+    if (!sources) {
+      // Sources from settings come after, so nuget.config keeps its priority order
+      const configured = readPackageSources(directory);
+      const additional = getFeedSettings(uri).additionalSources
+        .filter(url => !configured.some(source => source.url.toLowerCase() === url.toLowerCase()))
+        .map(url => ({ name: sourceName(url), url }));
+      sources = [...configured, ...additional];
+      this.sourcesByDirectory.set(directory, sources);
+    }
+    return sources;
+  }
+
+  async searchPackages(
+    uri: vscode.Uri,
+    query: string,
+    take: number,
+    prerelease = false,
+    signal?: AbortSignal,
+    packageType?: string
+  ): Promise<NuGetPackage[]> {
+    const results = await this.queryAll(
+      uri,
+      client => client.search(query, take, prerelease, signal, packageType),
+      signal
+    );
+    const localResults = this.getLocalFolders(uri)
+      .flatMap(folder => folder.search(query, take))
+      .filter(pkg => !packageType ||
+        pkg.packageTypes?.some(type => type.toLowerCase() === packageType.toLowerCase()));
+
+    const merged = new Map<string, NuGetPackage>();
+    for (const packages of [...results, localResults]) {
+      for (const pkg of packages) {
+        const key = pkg.id.toLowerCase();
+        const existing = merged.get(key);
+        if (!existing || (!existing.version && pkg.version)) {
+          merged.set(key, { ...pkg, installedLocally: existing?.installedLocally || pkg.installedLocally });
+        } else {
+          if (!existing.totalDownloads && pkg.totalDownloads) {
+            existing.totalDownloads = pkg.totalDownloads;
+          }
+          existing.installedLocally ||= pkg.installedLocally;
+        }
+      }
+    }
+    return Array.from(merged.values());
+  }
+
+  async getVersions(uri: vscode.Uri, packageId: string, signal?: AbortSignal): Promise<string[]> {
+    return (await this.lookupVersions(uri, packageId, signal)) ?? [];
+  }
+
+  /**
+   * Like `getVersions`, but returns undefined when no version was found and
+   * at least one source could not be reached, so callers can tell
+   * "the package does not exist" apart from "we could not check".
+   */
+  async lookupVersions(
+    uri: vscode.Uri,
+    packageId: string,
+    signal?: AbortSignal
+  ): Promise<string[] | undefined> {
+    const { values: results, failed } = await this.querySettled(
+      uri,
+      client => client.getVersions(packageId, signal),
+      signal
+    );
+    results.push(this.getLocalVersions(uri, packageId));
+    if (failed && results.every(versions => versions.length === 0)) {
+      return undefined;
+    }
+
+    const versions = new Map<string, string>();
+    for (const version of results.flat()) {
+      if (!versions.has(normalizeVersion(version))) {
+        versions.set(normalizeVersion(version), version);
+      }
+    }
+    return Array.from(versions.values());
+  }
+
+  async getPackage(
+    uri: vscode.Uri,
+    packageId: string,
+    signal?: AbortSignal
+  ): Promise<NuGetPackage | undefined> {
+    // Sources are ordered by priority, so the first feed that knows the package wins
+    for (const client of this.getClients(uri)) {
+      try {
+        const pkg = await client.getPackage(packageId, false, signal);
+        if (pkg) {
+          return pkg;
+        }
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        console.error(`Failed to get package ${packageId} from ${client.source.name}:`, error);
+      }
+    }
+    for (const folder of this.getLocalFolders(uri)) {
+      const pkg = folder.getPackage(packageId);
+      if (pkg) {
+        return pkg;
+      }
+    }
+    return undefined;
+  }
+
+  /** Versions of a package already extracted to the global packages or a fallback folder. */
+  getLocalVersions(uri: vscode.Uri, packageId: string): string[] {
+    return this.getLocalFolders(uri).flatMap(folder => folder.getVersions(packageId));
+  }
+
+  /**
+   * Reads the registration metadata (vulnerabilities, deprecation, ...) of a
+   * specific package version from the first source that has it. Throws when
+   * no source could be reached, so callers can skip rather than report.
+   */
+  async getCatalogEntry(
+    uri: vscode.Uri,
+    packageId: string,
+    version: string,
+    signal?: AbortSignal
+  ): Promise<RegistrationCatalogEntry | undefined> {
+    const normalized = normalizeVersion(version);
+
+    let lastError: unknown;
+    let reachedAny = false;
+    for (const client of this.getClients(uri)) {
+      try {
+        const leaves = await client.getRegistrationLeaves(packageId, version, signal);
+        reachedAny = true;
+        const entry = leaves.find(leaf => normalizeVersion(leaf.version) === normalized);
+        if (entry) {
+          return entry;
+        }
+      } catch (error) {
+        if (isCancellation(error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+
+    if (!reachedAny && lastError) {
+      throw lastError;
+    }
+    return undefined;
+  }
+
+  clearCache(): Promise<void> {
+    this.clients.clear();
+    return this.cache.clear();
+  }
+
+  private getLocalFolders(uri: vscode.Uri): LocalPackageFolder[] {
+    const directory = this.getDirectory(uri);
+    let folders = this.foldersByDirectory.get(directory);
+    if (!folders) {
+      folders = readPackageFolders(directory);
+      this.foldersByDirectory.set(directory, folders);
+    }
+
+    const folderPaths = [folders.globalPackagesFolder, ...folders.fallbackPackageFolders];
+    return folderPaths.map((folderPath, index) => {
+      let folder = this.localFolders.get(folderPath);
+      if (!folder) {
+        folder = new LocalPackageFolder(folderPath, index === 0 ? "Global packages folder" : "Fallback package folder");
+        this.localFolders.set(folderPath, folder);
+      }
+      return folder;
+    });
+  }
+
+  private async queryAll<T>(
+    uri: vscode.Uri,
+    query: (client: NuGetFeedClient) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    return (await this.querySettled(uri, query, signal)).values;
+  }
+
+  private async querySettled<T>(
+    uri: vscode.Uri,
+    query: (client: NuGetFeedClient) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<{ values: T[]; failed: boolean }> {
+    const clients = this.getClients(uri);
+    const results = await Promise.allSettled(clients.map(query));
+
+    if (signal?.aborted) {
+      throw new RequestCanceledError();
+    }
+
+    const values = results.flatMap((result, index) => {
+      if (result.status === "rejected") {
+        // Expected in offline mode for anything not cached yet, and for superseded requests
+        if (!(result.reason instanceof OfflineError) && !isCancellation(result.reason)) {
+          console.error(`Package source ${clients[index].source.name} failed:`, result.reason);
+        }
+        return [];
+      }
+      return [result.value];
+    });
+    return { values, failed: values.length < results.length };
+  }
+
+  private getClients(uri: vscode.Uri): NuGetFeedClient[] {
+    // Timeouts and cache durations can differ per workspace folder
+    const folder = vscode.workspace.getWorkspaceFolder(uri)?.uri;
+    return this.getSources(uri)
+      .filter(isHttpSource)
+      .map(source => {
+        const key = `${folder ?? ""}|${source.url}|${source.credentials?.username ?? ""}`;
+        let client = this.clients.get(key);
+        if (!client) {
+          client = new NuGetFeedClient(source, this.cache, () => getFeedSettings(folder));
+          this.clients.set(key, client);
+        }
+        return client;
+      });
+  }
+
+  private getDirectory(uri: vscode.Uri): string {
+    if (uri.scheme === "file") {
+      return path.dirname(uri.fsPath);
+    }
+    // Untitled documents fall back to the first workspace folder, or just the user config
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+  }
+
+  dispose() {
+    this.watcher.dispose();
+    this.configurationListener.dispose();
+  }
+}
+
+function sourceName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
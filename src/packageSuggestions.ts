@@ -0,0 +1,197 @@
+import * as vscode from "vscode";
+import { CentralPackageService } from "./centralPackages";
+import { DirectiveDocument, findDirectiveInsertLine, PackageDirective, parseDirectives } from "./directiveParser";
+import { NuGetPackage } from "./feedClient";
+import { PackageSourceService } from "./packageSources";
+import { abortSignalFromToken, isCancellation } from "./requestScheduler";
+import { getCompletionSettings } from "./settings";
+
+// Compiler errors for names the C# extension cannot resolve
+const UNRESOLVED_NAME_CODES = ["CS0246", "CS0234", "CS0103"];
+
+/** Types that identify their package, mapped to the namespace declaring them. */
+const WELL_KNOWN_TYPES: Record<string, string> = {
+  AbstractValidator: "FluentValidation",
+  AnsiConsole: "Spectre.Console",
+  BenchmarkRunner: "BenchmarkDotNet.Running",
+  Cli: "CliWrap",
+  ConnectionMultiplexer: "StackExchange.Redis",
+  CsvReader: "CsvHelper",
+  CsvWriter: "CsvHelper",
+  DeserializerBuilder: "YamlDotNet.Serialization",
+  Faker: "Bogus",
+  HtmlDocument: "HtmlAgilityPack",
+  IMediator: "MediatR",
+  JArray: "Newtonsoft.Json.Linq",
+  JObject: "Newtonsoft.Json.Linq",
+  JsonConvert: "Newtonsoft.Json",
+  LoggerConfiguration: "Serilog",
+  Markdown: "Markdig",
+  MongoClient: "MongoDB.Driver",
+  MySqlConnection: "MySqlConnector",
+  NpgsqlConnection: "Npgsql",
+  ResiliencePipelineBuilder: "Polly",
+  RestClient: "RestSharp",
+  RootCommand: "System.CommandLine",
+  SerializerBuilder: "YamlDotNet.Serialization",
+  SqlConnection: "Microsoft.Data.SqlClient",
+  SqliteConnection: "Microsoft.Data.Sqlite"
+};
+
+// Packages offered per namespace, best first
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Offers to add the `#:package` providing the namespace of a `using`
+ * directive or a well-known type name, found by searching the configured
+ * feeds. `using` lines need an unresolved-name error from the C# extension,
+ * since most namespaces come from the SDK or the app itself.
+ */
+export class PackageSuggestionCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(
+    private readonly packageSources: PackageSourceService,
+    private readonly centralPackages: CentralPackageService
+  ) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeAction[]> {
+    const parsed = parseDirectives(document.getText());
+    const packageIds = parsed.directives
+      .filter((d): d is PackageDirective => d.kind === "package" && !!d.id)
+      .map(d => d.id!.text);
+    const unresolved = context.diagnostics.filter(diagnostic => UNRESOLVED_NAME_CODES.includes(diagnosticCode(diagnostic)));
+
+    // A using directive on the line, or a well-known type name under the cursor
+    const line = document.lineAt(range.start.line);
+    const usingNamespace = parseUsingNamespace(line.text);
+    const wordRange = document.getWordRangeAtPosition(range.start, /[A-Za-z_]\w*/);
+    const typeName = wordRange && document.getText(wordRange);
+    const typeNamespace = typeName && Object.prototype.hasOwnProperty.call(WELL_KNOWN_TYPES, typeName)
+      ? WELL_KNOWN_TYPES[typeName]
+      : undefined;
+    const namespace = usingNamespace ?? typeNamespace;
+    if (!namespace) {
+      return [];
+    }
+
+    if (isProvided(namespace, packageIds)) {
+      return [];
+    }
+    const diagnostics = unresolved.filter(diagnostic => diagnostic.range.start.line === line.lineNumber);
+    if (usingNamespace && diagnostics.length === 0) {
+      return [];
+    }
+
+    let candidates: NuGetPackage[];
+    try {
+      const settings = getCompletionSettings(document.uri);
+      const results = await this.packageSources.searchPackages(
+        document.uri,
+        namespace,
+        settings.searchResults,
+        settings.includePrerelease,
+        abortSignalFromToken(token)
+      );
+      candidates = rankCandidates(namespace, results).slice(0, MAX_SUGGESTIONS);
+    } catch (error) {
+      if (!isCancellation(error)) {
+        console.error(`Failed to search packages for namespace ${namespace}:`, error);
+      }
+      return [];
+    }
+
+    return candidates.map((pkg, index) => {
+      const action = this.createAddPackageAction(document, parsed, pkg, usingNamespace ? undefined : namespace);
+      action.diagnostics = diagnostics;
+      action.isPreferred = index === 0 && pkg.id.toLowerCase() === namespace.toLowerCase();
+      return action;
+    });
+  }
+
+  private createAddPackageAction(
+    document: vscode.TextDocument,
+    parsed: DirectiveDocument,
+    pkg: NuGetPackage,
+    usingToAdd: string | undefined
+  ): vscode.CodeAction {
+    // With a central pin, the directive takes its version from Directory.Packages.props
+    const central = this.centralPackages.getCentralVersion(document.uri, pkg.id);
+    const directive = central || !pkg.version ? `#:package ${pkg.id}` : `#:package ${pkg.id}@${pkg.version}`;
+    const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+
+    const action = new vscode.CodeAction(
+      `Add ${directive}${usingToAdd ? ` and using ${usingToAdd}` : ""}`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(findDirectiveInsertLine(parsed, "package"), 0), directive + eol);
+    if (usingToAdd && !hasUsing(document, usingToAdd)) {
+      const usingLine = parsed.firstCodeLine ?? document.lineCount;
+      action.edit.insert(document.uri, new vscode.Position(usingLine, 0), `using ${usingToAdd};${eol}`);
+    }
+    return action;
+  }
+}
+
+/** The namespace (or, for `using static` and aliases, the type) a `using` directive imports. */
+function parseUsingNamespace(lineText: string): string | undefined {
+  const match = lineText.match(/^\s*(?:global\s+)?using\s+(?:static\s+)?(?:\w+\s*=\s*)?([A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*)\s*;/);
+  return match?.[1];
+}
+
+function hasUsing(document: vscode.TextDocument, namespace: string): boolean {
+  for (let line = 0; line < document.lineCount; line++) {
+    if (parseUsingNamespace(document.lineAt(line).text) === namespace) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** True when a package id is the namespace or one of its parents, or lives inside it. */
+function isProvided(namespace: string, packageIds: string[]): boolean {
+  const name = namespace.toLowerCase();
+  return packageIds.some(packageId => {
+    const id = packageId.toLowerCase();
+    return id === name || name.startsWith(`${id}.`) || id.startsWith(`${name}.`);
+  });
+}
+
+/**
+ * Orders search results by how likely they declare the namespace: the exact
+ * id, then the longest id the namespace starts with, then ids below the
+ * namespace, each by downloads. Results from another root namespace are
+ * dropped.
+ */
+function rankCandidates(namespace: string, packages: NuGetPackage[]): NuGetPackage[] {
+  const name = namespace.toLowerCase();
+  const root = name.split(".")[0];
+  const rank = (pkg: NuGetPackage): number => {
+    const id = pkg.id.toLowerCase();
+    if (id === name) {
+      return 0;
+    }
+    if (name.startsWith(`${id}.`)) {
+      return 1;
+    }
+    return id.startsWith(`${name}.`) ? 2 : 3;
+  };
+  return packages
+    .filter(pkg => pkg.id.toLowerCase().split(".")[0] === root)
+    .sort((a, b) =>
+      rank(a) - rank(b) ||
+      (rank(a) === 1 ? b.id.length - a.id.length : 0) ||
+      (b.totalDownloads ?? 0) - (a.totalDownloads ?? 0)
+    );
+}
+
+function diagnosticCode(diagnostic: vscode.Diagnostic): string {
+  const code = typeof diagnostic.code === "object" ? diagnostic.code.value : diagnostic.code;
+  return String(code ?? "");
+}
@@ -0,0 +1,181 @@
+import * as vscode from "vscode";
+import { parseDirectiveLine } from "./directiveParser";
+import { PackageSourceService } from "./packageSources";
+import { findUpdate, isFloatingOrRange, UpdateLevel } from "./versions";
+
+export interface PackageUpdate {
+  packageId: string;
+  currentVersion: string;
+  latestVersion: string;
+  /** Range of the version text on the directive line. */
+  range: vscode.Range;
+}
+
+export function getUpdateLevel(uri: vscode.Uri): UpdateLevel {
+  return vscode.workspace
+    .getConfiguration("csharpPackageAutocomplete.diagnostics", uri)
+    .get<UpdateLevel>("outdatedUpdateLevel", "major");
+}
+
+/**
+ * Finds every pinned `#:package` in the document that has a newer stable
+ * version on its feeds. Lines whose feeds cannot be reached are skipped.
+ */
+export async function findPackageUpdates(
+  document: vscode.TextDocument,
+  packageSources: PackageSourceService,
+  lines?: vscode.Range
+): Promise<PackageUpdate[]> {
+  const level = getUpdateLevel(document.uri);
+  const firstLine = lines?.start.line ?? 0;
+  const lastLine = lines?.end.line ?? document.lineCount - 1;
+
+  const lookups: Promise<PackageUpdate | undefined>[] = [];
+  for (let lineNumber = firstLine; lineNumber <= lastLine; lineNumber++) {
+    const directive = parseDirectiveLine(document.lineAt(lineNumber).text, lineNumber);
+    if (directive?.kind !== "package" || directive.errors.length > 0 || !directive.id || !directive.version ||
+      isFloatingOrRange(directive.version.text)) {
+      continue;
+    }
+    const packageId = directive.id.text;
+    const { text: currentVersion, start: versionStart, end: versionEnd } = directive.version;
+
+    lookups.push(
+      packageSources.lookupVersions(document.uri, packageId).then(versions => {
+        const latestVersion = versions && findUpdate(currentVersion, versions, level);
+        return latestVersion
+          ? {
+              packageId,
+              currentVersion,
+              latestVersion,
+              range: new vscode.Range(lineNumber, versionStart, lineNumber, versionEnd)
+            }
+          : undefined;
+      })
+    );
+  }
+
+  return (await Promise.all(lookups)).filter((update): update is PackageUpdate => update !== undefined);
+}
+
+export class PackageUpdateCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private readonly packageSources: PackageSourceService) {}
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const outdated = context.diagnostics.filter(d => d.code === "outdated-package");
+    if (outdated.length === 0) {
+      return [];
+    }
+
+    const updates = await findPackageUpdates(document, this.packageSources, range);
+    const actions = updates.map(update => {
+      const action = new vscode.CodeAction(
+        `Update ${update.packageId} to ${update.latestVersion}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.edit = new vscode.WorkspaceEdit();
+      action.edit.replace(document.uri, update.range, update.latestVersion);
+      action.diagnostics = outdated.filter(d => d.range.intersection(update.range));
+      action.isPreferred = true;
+      return action;
+    });
+
+    const updateAll = new vscode.CodeAction("Update all packages in file", vscode.CodeActionKind.QuickFix);
+    updateAll.command = {
+      title: updateAll.title,
+      command: "csharpPackageAutocomplete.updatePackages",
+      arguments: [document.uri]
+    };
+    return [...actions, updateAll];
+  }
+}
+
+/**
+ * Updates every outdated package in the given files. The edit is applied
+ * through the refactor preview so each change can be reviewed first.
+ */
+export async function updatePackagesInFiles(
+  uris: vscode.Uri[],
+  packageSources: PackageSourceService
+): Promise<void> {
+  const edit = new vscode.WorkspaceEdit();
+  let count = 0;
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Checking for package updates..." },
+    async () => {
+      for (const uri of uris) {
+        // Avoid loading every C# file in the workspace into an editor model
+        if (!(await fileMentionsPackages(uri))) {
+          continue;
+        }
+        const document = await vscode.workspace.openTextDocument(uri);
+        for (const update of await findPackageUpdates(document, packageSources)) {
+          edit.replace(uri, update.range, update.latestVersion, {
+            label: `${update.packageId} ${update.currentVersion} → ${update.latestVersion}`,
+            needsConfirmation: true
+          });
+          count++;
+        }
+      }
+    }
+  );
+
+  if (count === 0) {
+    vscode.window.showInformationMessage("All packages are up to date.");
+    return;
+  }
+  await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+}
+
+/** Sets the version of the `#:package` directive on a line, adding one if it has none. */
+async function setPackageVersion(uri: vscode.Uri, line: number, version: string): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const directive = line < document.lineCount ? parseDirectiveLine(document.lineAt(line).text, line) : undefined;
+  if (directive?.kind !== "package" || !directive.id) {
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  if (directive.version) {
+    edit.replace(uri, new vscode.Range(line, directive.version.start, line, directive.version.end), version);
+  } else {
+    edit.insert(uri, new vscode.Position(line, directive.id.end), `@${version}`);
+  }
+  await vscode.workspace.applyEdit(edit);
+}
+
+async function fileMentionsPackages(uri: vscode.Uri): Promise<boolean> {
+  const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+  if (open) {
+    return open.getText().includes("#:package");
+  }
+  const content = await vscode.workspace.fs.readFile(uri);
+  return Buffer.from(content).toString("utf8").includes("#:package");
+}
+
+export function registerPackageUpdateCommands(packageSources: PackageSourceService): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand("csharpPackageAutocomplete.updatePackages", (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!target) {
+        vscode.window.showWarningMessage("Open a C# file to update its packages.");
+        return;
+      }
+      return updatePackagesInFiles([target], packageSources);
+    }),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.updatePackage", (uri: vscode.Uri, line: number, version: string) =>
+      setPackageVersion(uri, line, version)
+    ),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.updateWorkspacePackages", async () => {
+      const files = await vscode.workspace.findFiles("**/*.cs", "**/{bin,obj,node_modules}/**");
+      return updatePackagesInFiles(files, packageSources);
+    })
+  ];
+}
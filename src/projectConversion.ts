@@ -0,0 +1,363 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { InheritedProperty, readDirectoryProps } from "./centralPackages";
+import { DEFAULT_SDK_ID, DirectiveMetadataRegistry } from "./directiveMetadata";
+import { Directive, parseDirectives } from "./directiveParser";
+import { isProjectFile, resolveProjectReference } from "./projectReferences";
+import { attribute, childElements, escapeXml, parseXml, XmlElement } from "./xml";
+
+/**
+ * Properties `dotnet run` sets implicitly for a file-based app, and what a
+ * project gets without them. They are written to a converted project file
+ * so it builds the same way; converting back, only values that differ from
+ * the file-based ones become directives. `TargetFramework` is handled
+ * separately since its default depends on the SDK.
+ */
+const FILE_BASED_APP_DEFAULTS: Array<[name: string, fileBasedValue: string, projectValue: string]> = [
+  ["OutputType", "Exe", "Library"],
+  ["ImplicitUsings", "enable", "disable"],
+  ["Nullable", "enable", "disable"],
+  ["PublishAot", "true", "false"]
+];
+
+/**
+ * Renders the directives of a file-based app as an equivalent SDK-style
+ * project file in `projectDirectory`.
+ */
+export function directivesToProject(
+  directives: Directive[],
+  documentPath: string,
+  projectDirectory: string,
+  defaultTargetFramework: string
+): string {
+  const sdks: string[] = [];
+  const packages: string[] = [];
+  const projects: string[] = [];
+
+  // Keyed by lower-case name, since MSBuild property names are case-insensitive
+  const properties = new Map<string, [string, string]>();
+  for (const [name, value] of [["TargetFramework", defaultTargetFramework], ...FILE_BASED_APP_DEFAULTS]) {
+    properties.set(name.toLowerCase(), [name, value]);
+  }
+
+  for (const directive of directives) {
+    switch (directive.kind) {
+      case "sdk":
+        if (directive.name) {
+          sdks.push(directive.version ? `${directive.name.text}/${directive.version.text}` : directive.name.text);
+        }
+        break;
+      case "property":
+        // Like MSBuild, the last assignment wins
+        if (directive.name && directive.value) {
+          const key = directive.name.text.toLowerCase();
+          properties.set(key, [properties.get(key)?.[0] ?? directive.name.text, directive.value.text]);
+        }
+        break;
+      case "package":
+        if (directive.id) {
+          const version = directive.version ? ` Version="${escapeXml(directive.version.text)}"` : "";
+          packages.push(`    <PackageReference Include="${escapeXml(directive.id.text)}"${version} />`);
+        }
+        break;
+      case "project":
+        if (directive.path) {
+          // MSBuild needs the project file itself, not its directory
+          const resolution = resolveProjectReference(documentPath, directive.path.text);
+          const include = "projectPath" in resolution
+            ? path.relative(projectDirectory, resolution.projectPath)
+            : path.relative(projectDirectory, path.resolve(path.dirname(documentPath), directive.path.text));
+          projects.push(`    <ProjectReference Include="${escapeXml(include)}" />`);
+        }
+        break;
+    }
+  }
+
+  const [projectSdk = DEFAULT_SDK_ID, ...additionalSdks] = sdks;
+  const lines = [`<Project Sdk="${escapeXml(projectSdk)}">`, ""];
+  for (const sdk of additionalSdks) {
+    const [name, version] = sdk.split("/");
+    const versionAttribute = version ? ` Version="${escapeXml(version)}"` : "";
+    lines.push(`  <Sdk Name="${escapeXml(name)}"${versionAttribute} />`, "");
+  }
+
+  lines.push("  <PropertyGroup>");
+  for (const [name, value] of properties.values()) {
+    lines.push(`    <${name}>${escapeXml(value)}</${name}>`);
+  }
+  lines.push("  </PropertyGroup>", "");
+
+  for (const items of [packages, projects]) {
+    if (items.length > 0) {
+      lines.push("  <ItemGroup>", ...items, "  </ItemGroup>", "");
+    }
+  }
+  lines.push("</Project>", "");
+  return lines.join("\n");
+}
+
+export interface ProjectConversion {
+  directives: string[];
+  /** Parts of the project file that have no directive equivalent. */
+  unsupported: string[];
+}
+
+/**
+ * Translates a simple project file into directives for a `.cs` file in
+ * `sourceDirectory`. Anything that cannot be expressed as a directive
+ * (conditions, other item types, targets, ...) is listed as unsupported.
+ * `inheritedProperties` are the ones the project gets from Directory.Build.props.
+ */
+export function projectToDirectives(
+  project: XmlElement,
+  projectPath: string,
+  sourceDirectory: string,
+  inheritedProperties: ReadonlyMap<string, InheritedProperty> = new Map()
+): ProjectConversion {
+  const directives: string[] = [];
+  const references: string[] = [];
+  const unsupported: string[] = [];
+  const setProperties = new Set<string>();
+  const describe = (element: XmlElement) => {
+    const include = attribute(element, "Include");
+    return include ? `<${element.name} Include="${include}">` : `<${element.name}>`;
+  };
+
+  const sdks = (attribute(project, "Sdk") ?? "").split(";").map(sdk => sdk.trim()).filter(Boolean);
+  for (const element of childElements(project, "Sdk")) {
+    const name = attribute(element, "Name");
+    const version = attribute(element, "Version");
+    if (name) {
+      sdks.push(version ? `${name}/${version}` : name);
+    }
+  }
+  // The default SDK is implied unless other SDKs are listed
+  if (!(sdks.length === 1 && sdks[0].toLowerCase() === DEFAULT_SDK_ID.toLowerCase())) {
+    directives.push(...sdks.map(sdk => `#:sdk ${sdk.replace("/", "@")}`));
+  }
+
+  for (const element of project.children) {
+    if (attribute(element, "Condition") !== undefined) {
+      unsupported.push(`${describe(element)} with a Condition`);
+      continue;
+    }
+
+    switch (element.name.toLowerCase()) {
+      case "sdk":
+        break;
+
+      case "propertygroup":
+        for (const property of element.children) {
+          const value = property.text.trim();
+          const isDefault = FILE_BASED_APP_DEFAULTS.some(([name, defaultValue]) =>
+            name.toLowerCase() === property.name.toLowerCase() && defaultValue.toLowerCase() === value.toLowerCase()
+          );
+          if (attribute(property, "Condition") !== undefined || property.children.length > 0 || /[\r\n]/.test(value) ||
+            (property.name.toLowerCase() === "targetframeworks" && value.includes(";"))) {
+            unsupported.push(`<${property.name}>`);
+            continue;
+          }
+          setProperties.add(property.name.toLowerCase());
+          if (!isDefault) {
+            const name = property.name.toLowerCase() === "targetframeworks" ? "TargetFramework" : property.name;
+            directives.push(`#:property ${name}=${value}`);
+          }
+        }
+        break;
+
+      case "itemgroup":
+        for (const item of element.children) {
+          const include = attribute(item, "Include");
+          const version = attribute(item, "Version") ?? childElements(item, "Version")[0]?.text.trim();
+          const hasOtherMetadata = Object.keys(item.attributes).some(name => !/^(include|version)$/i.test(name)) ||
+            item.children.some(child => child.name.toLowerCase() !== "version");
+
+          if (!include || hasOtherMetadata) {
+            unsupported.push(describe(item));
+          } else if (item.name.toLowerCase() === "packagereference") {
+            references.push(version ? `#:package ${include}@${version}` : `#:package ${include}`);
+          } else if (item.name.toLowerCase() === "projectreference") {
+            const target = path.resolve(path.dirname(projectPath), include.replace(/\\/g, "/"));
+            references.push(`#:project ${path.relative(sourceDirectory, target).replace(/\\/g, "/")}`);
+          } else {
+            unsupported.push(describe(item));
+          }
+        }
+        break;
+
+      default:
+        unsupported.push(describe(element));
+    }
+  }
+
+  // Left unset, the project gets the inherited or SDK value rather than the file-based one
+  for (const [name, fileBasedValue, projectValue] of FILE_BASED_APP_DEFAULTS) {
+    const value = inheritedProperties.get(name.toLowerCase())?.value ?? projectValue;
+    if (!setProperties.has(name.toLowerCase()) && value.toLowerCase() !== fileBasedValue.toLowerCase()) {
+      directives.push(`#:property ${name}=${value}`);
+    }
+  }
+  return { directives: [...directives, ...references], unsupported };
+}
+
+async function convertToProject(uri: vscode.Uri | undefined, metadata: DirectiveMetadataRegistry): Promise<void> {
+  const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!target || target.scheme !== "file" || path.extname(target.fsPath).toLowerCase() !== ".cs") {
+    vscode.window.showWarningMessage("Open a C# file-based app to convert it to a project.");
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(target);
+  const parsed = parseDirectives(document.getText());
+  if (parsed.directives.some(directive => directive.errors.length > 0)) {
+    vscode.window.showErrorMessage("Fix the invalid directives in this file before converting it to a project.");
+    return;
+  }
+
+  // Like `dotnet project convert`: a folder named after the file, so other
+  // .cs files next to it are not compiled into the project
+  const fileName = path.basename(target.fsPath);
+  const name = path.basename(fileName, path.extname(fileName));
+  const projectDirectory = path.join(path.dirname(target.fsPath), name);
+  if (fs.existsSync(projectDirectory)) {
+    vscode.window.showErrorMessage(`Cannot convert ${fileName}: ${name}${path.sep} already exists.`);
+    return;
+  }
+  const projectUri = vscode.Uri.file(path.join(projectDirectory, `${name}.csproj`));
+  const sourceUri = vscode.Uri.file(path.join(projectDirectory, fileName));
+
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: `Move ${fileName}`, description: `Into ${name}${path.sep} next to the project file`, remove: true },
+      { label: `Copy ${fileName}`, description: "Keep the file-based app as it is", remove: false }
+    ],
+    { placeHolder: `Create ${name}${path.sep}${name}.csproj` }
+  );
+  if (!choice) {
+    return;
+  }
+
+  const contents = directivesToProject(
+    parsed.directives,
+    target.fsPath,
+    projectDirectory,
+    metadata.getTargetFramework(parsed.directives, target)
+  );
+
+  // The project file replaces the directives, and a project cannot compile `#:` or `#!` lines
+  const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  const removedLines = new Set(parsed.directives.map(directive => directive.line));
+  if (parsed.hasShebang) {
+    removedLines.add(0);
+  }
+  const source = Array.from({ length: document.lineCount }, (_, line) => line)
+    .filter(line => !removedLines.has(line))
+    .map(line => document.lineAt(line).text)
+    .join(eol)
+    .replace(/^(?:[ \t]*\r?\n)+/, "");
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(
+    projectUri,
+    { contents: Buffer.from(contents, "utf8") },
+    { label: `Create ${name}.csproj`, needsConfirmation: true }
+  );
+  edit.createFile(
+    sourceUri,
+    { contents: Buffer.from(source, "utf8") },
+    { label: `Create ${fileName} without directives`, needsConfirmation: true }
+  );
+  if (choice.remove) {
+    edit.deleteFile(target, {}, { label: `Delete ${fileName}`, needsConfirmation: true });
+  }
+  if (await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+    await vscode.window.showTextDocument(sourceUri);
+  }
+}
+
+async function convertToFileBasedApp(uri: vscode.Uri | undefined): Promise<void> {
+  const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!target || target.scheme !== "file" || !isProjectFile(target.fsPath)) {
+    vscode.window.showWarningMessage("Open a .csproj file to convert it to a file-based app.");
+    return;
+  }
+  const projectName = path.basename(target.fsPath);
+
+  let project: XmlElement | undefined;
+  try {
+    project = parseXml(fs.readFileSync(target.fsPath, "utf8"));
+  } catch (error) {
+    console.error(`Error reading ${target.fsPath}:`, error);
+  }
+  if (!project) {
+    vscode.window.showErrorMessage(`Could not read ${projectName}.`);
+    return;
+  }
+
+  // Only a project with a single source file maps onto a file-based app
+  const projectDirectory = path.dirname(target.fsPath);
+  const sources = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(projectDirectory, "**/*.cs"),
+    new vscode.RelativePattern(projectDirectory, "{bin,obj}/**")
+  );
+  if (sources.length !== 1) {
+    vscode.window.showErrorMessage(
+      `${projectName} has ${sources.length} C# files. Only projects with a single source file, such as Program.cs, can be converted.`
+    );
+    return;
+  }
+  const [source] = sources;
+
+  const { directives, unsupported } = projectToDirectives(
+    project,
+    target.fsPath,
+    path.dirname(source.fsPath),
+    readDirectoryProps(projectDirectory).properties
+  );
+  if (unsupported.length > 0) {
+    vscode.window.showErrorMessage(
+      `${projectName} uses features that have no directive equivalent: ${unsupported.slice(0, 5).join(", ")}${unsupported.length > 5 ? ", ..." : ""}`
+    );
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "Delete project file", description: `${path.basename(source.fsPath)} runs on its own with dotnet run`, remove: true },
+      { label: "Keep project file", description: `Only add directives to ${path.basename(source.fsPath)}`, remove: false }
+    ],
+    { placeHolder: `Add ${directives.length} directive(s) to ${path.basename(source.fsPath)}` }
+  );
+  if (!choice) {
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(source);
+  const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  const insertLine = parseDirectives(document.getText()).hasShebang ? 1 : 0;
+  const separator = insertLine < document.lineCount && !document.lineAt(insertLine).isEmptyOrWhitespace ? eol : "";
+
+  const edit = new vscode.WorkspaceEdit();
+  if (directives.length > 0) {
+    edit.insert(source, new vscode.Position(insertLine, 0), directives.map(line => line + eol).join("") + separator, {
+      label: "Add directives",
+      needsConfirmation: true
+    });
+  }
+  if (choice.remove) {
+    edit.deleteFile(target, {}, { label: `Delete ${projectName}`, needsConfirmation: true });
+  }
+  await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+}
+
+export function registerProjectConversionCommands(metadata: DirectiveMetadataRegistry): vscode.Disposable[] {
+  return [
+    vscode.commands.registerCommand("csharpPackageAutocomplete.convertToProject", (uri?: vscode.Uri) =>
+      convertToProject(uri, metadata)
+    ),
+    vscode.commands.registerCommand("csharpPackageAutocomplete.convertToFileBasedApp", (uri?: vscode.Uri) =>
+      convertToFileBasedApp(uri)
+    )
+  ];
+}
@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { parseDirectives } from "./directiveParser";
+import { attribute, childElements, parseXml } from "./xml";
+
+export interface ProjectInfo {
+  projectPath: string;
+  sdk?: string;
+  targetFrameworks: string[];
+}
+
+export type ProjectReferenceResolution = { projectPath: string } | { problem: string };
+
+const PROJECT_FILE_PATTERN = /\.csproj$/i;
+
+export function isProjectFile(fileName: string): boolean {
+  return PROJECT_FILE_PATTERN.test(fileName);
+}
+
+/** Project files directly inside a directory. */
+export function findProjectFiles(directory: string): string[] {
+  try {
+    return fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isFile() && isProjectFile(entry.name))
+      .map(entry => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolves a `#:project` argument the way `dotnet run` does: relative to the
+ * `.cs` file, naming either a project file or a directory that contains
+ * exactly one.
+ */
+export function resolveProjectReference(documentPath: string, reference: string): ProjectReferenceResolution {
+  // Backslashes are common in references written on Windows
+  const target = path.resolve(path.dirname(documentPath), reference.replace(/\\/g, "/"));
+
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(target);
+  } catch {
+    return { problem: `Project '${reference}' does not exist.` };
+  }
+  if (stat.isFile()) {
+    return { projectPath: target };
+  }
+
+  const projects = findProjectFiles(target);
+  if (projects.length === 0) {
+    return { problem: `Directory '${reference}' does not contain a project file.` };
+  }
+  if (projects.length > 1) {
+    return { problem: `Directory '${reference}' contains more than one project file (${projects.join(", ")}). Reference one of them directly.` };
+  }
+  return { projectPath: path.join(target, projects[0]) };
+}
+
+export function readProjectInfo(projectPath: string): ProjectInfo | undefined {
+  let project;
+  try {
+    project = parseXml(fs.readFileSync(projectPath, "utf8"));
+  } catch {
+    return undefined;
+  }
+  if (!project) {
+    return undefined;
+  }
+
+  // `<Project Sdk="...">` is the usual form; `<Sdk Name="..."/>` is the explicit one
+  const sdk = attribute(project, "Sdk") ??
+    childElements(project, "Sdk").map(element => attribute(element, "Name")).find(Boolean);
+
+  const targetFrameworks = childElements(project, "PropertyGroup")
+    .flatMap(group => [...childElements(group, "TargetFramework"), ...childElements(group, "TargetFrameworks")])
+    .flatMap(element => element.text.split(";"))
+    .map(framework => framework.trim())
+    .filter(Boolean);
+
+  return { projectPath, sdk, targetFrameworks: Array.from(new Set(targetFrameworks)) };
+}
+
+/** Makes the path of every resolvable `#:project` directive a link to the project file. */
+export class ProjectReferenceLinkProvider implements vscode.DocumentLinkProvider {
+  provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    if (document.uri.scheme !== "file") {
+      return [];
+    }
+
+    const links: vscode.DocumentLink[] = [];
+    for (const directive of parseDirectives(document.getText()).directives) {
+      if (directive.kind !== "project" || !directive.path) {
+        continue;
+      }
+
+      const { text, start, end } = directive.path;
+      const resolution = resolveProjectReference(document.uri.fsPath, text);
+      if ("projectPath" in resolution) {
+        const link = new vscode.DocumentLink(
+          new vscode.Range(directive.line, start, directive.line, end),
+          vscode.Uri.file(resolution.projectPath)
+        );
+        link.tooltip = `Open ${path.basename(resolution.projectPath)}`;
+        links.push(link);
+      }
+    }
+    return links;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Value types of MSBuild properties set with `#:property`: which values a
+ * property accepts and which ones to offer while typing.
+ */
+
+import { parseTargetFramework } from "./targetFrameworks";
+import { parseVersion } from "./versions";
+
+/**
+ * `enum` accepts only the listed values; for every other type the listed
+ * values are suggestions. `list` is a semicolon-separated list, e.g. `NoWarn`.
+ */
+export type PropertyValueType = "bool" | "enum" | "int" | "version" | "tfm" | "rid" | "list" | "text";
+
+export const PROPERTY_VALUE_TYPES: PropertyValueType[] = ["bool", "enum", "int", "version", "tfm", "rid", "list", "text"];
+
+export interface PropertyValueSpec {
+  type?: PropertyValueType;
+  possibleValues?: string[];
+  defaultValue?: string;
+}
+
+/** Runtime identifiers offered for `rid` properties without their own list. */
+export const KNOWN_RUNTIME_IDENTIFIERS = [
+  "win-x64",
+  "win-x86",
+  "win-arm64",
+  "linux-x64",
+  "linux-arm64",
+  "linux-arm",
+  "linux-musl-x64",
+  "linux-musl-arm64",
+  "osx-x64",
+  "osx-arm64",
+  "browser-wasm"
+];
+
+const RUNTIME_ARCHITECTURES = new Set(["x64", "x86", "arm", "arm64", "armel", "armv6", "wasm", "s390x", "ppc64le", "loongarch64", "riscv64"]);
+
+const TYPE_DESCRIPTIONS: Record<PropertyValueType, string> = {
+  bool: "true or false",
+  enum: "one of the possible values",
+  int: "a whole number",
+  version: "a version such as 1.2.3",
+  tfm: "a target framework such as net10.0",
+  rid: "a runtime identifier such as linux-x64",
+  list: "a semicolon-separated list",
+  text: "any text"
+};
+
+/** Properties without a declared type are enumerations when they list their values, free text otherwise. */
+export function getValueType(spec: PropertyValueSpec): PropertyValueType {
+  return spec.type ?? (spec.possibleValues ? "enum" : "text");
+}
+
+export function describeValueType(spec: PropertyValueSpec): string {
+  return TYPE_DESCRIPTIONS[getValueType(spec)];
+}
+
+/**
+ * Explains why a value is not accepted, e.g. "Expected true or false",
+ * or returns undefined when it is. Values referencing other properties
+ * (`$(NoWarn);CS1591`) are only known at build time and always accepted.
+ */
+export function checkPropertyValue(spec: PropertyValueSpec, value: string): string | undefined {
+  if (value.includes("$(")) {
+    return undefined;
+  }
+  const type = getValueType(spec);
+  switch (type) {
+    case "bool":
+      return /^(true|false)$/i.test(value) ? undefined : `Expected ${TYPE_DESCRIPTIONS.bool}`;
+    case "enum": {
+      const possibleValues = spec.possibleValues ?? [];
+      return possibleValues.some(v => v.toLowerCase() === value.toLowerCase())
+        ? undefined
+        : `Possible values: ${possibleValues.join(", ")}`;
+    }
+    case "int":
+      return /^-?\d+$/.test(value) ? undefined : `Expected ${TYPE_DESCRIPTIONS.int}`;
+    case "version":
+      return parseVersion(value) ? undefined : `Expected ${TYPE_DESCRIPTIONS.version}`;
+    case "tfm":
+      return parseTargetFramework(value) ? undefined : `Expected ${TYPE_DESCRIPTIONS.tfm}`;
+    case "rid":
+      return isRuntimeIdentifier(value) ? undefined : `Expected ${TYPE_DESCRIPTIONS.rid}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Values to offer for what has been typed so far. For lists, only the item
+ * after the last `;` is completed: `prefix` is the part the values replace.
+ */
+export function suggestPropertyValues(spec: PropertyValueSpec, typed: string): { prefix: string; values: string[] } {
+  const type = getValueType(spec);
+  const prefix = type === "list" ? typed.substring(typed.lastIndexOf(";") + 1) : typed;
+
+  let values: string[];
+  if (type === "bool") {
+    values = ["true", "false"];
+  } else if (spec.possibleValues) {
+    values = spec.possibleValues;
+  } else if (type === "rid") {
+    values = KNOWN_RUNTIME_IDENTIFIERS;
+  } else {
+    values = spec.defaultValue ? [spec.defaultValue] : [];
+  }
+
+  // Items already in the list are not offered again
+  const listed = type === "list"
+    ? new Set(typed.split(";").slice(0, -1).map(item => item.trim().toLowerCase()))
+    : new Set<string>();
+  return {
+    prefix,
+    values: values.filter(v => v.toLowerCase().startsWith(prefix.trim().toLowerCase()) && !listed.has(v.toLowerCase()))
+  };
+}
+
+/** `any`, or an OS part (optionally versioned, `osx.13`) followed by a known architecture. */
+function isRuntimeIdentifier(value: string): boolean {
+  const rid = value.toLowerCase();
+  if (rid === "any" || KNOWN_RUNTIME_IDENTIFIERS.includes(rid)) {
+    return true;
+  }
+  const parts = rid.split("-");
+  return parts.length >= 2 &&
+    /^[a-z][a-z0-9]*(\.\d+)*$/.test(parts[0]) &&
+    parts.slice(1, -1).every(part => /^[a-z0-9]+$/.test(part)) &&
+    RUNTIME_ARCHITECTURES.has(parts[parts.length - 1]);
+}
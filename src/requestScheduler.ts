@@ -0,0 +1,135 @@
+/** Thrown to callers whose own signal aborted while waiting on a request. */
+export class RequestCanceledError extends Error {
+  constructor() {
+    super("Request canceled");
+    this.name = "RequestCanceledError";
+  }
+}
+
+/** Structural match for `vscode.CancellationToken`. */
+export interface CancellationTokenLike {
+  isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export function abortSignalFromToken(token: CancellationTokenLike | undefined): AbortSignal | undefined {
+  if (!token) {
+    return undefined;
+  }
+  const controller = new AbortController();
+  if (token.isCancellationRequested) {
+    controller.abort();
+  } else {
+    token.onCancellationRequested(() => controller.abort());
+  }
+  return controller.signal;
+}
+
+export function isCancellation(error: unknown): boolean {
+  return error instanceof RequestCanceledError ||
+    (error instanceof Error && (error.name === "CanceledError" || error.name === "AbortError"));
+}
+
+/** Resolves after `delay` ms, or rejects with `RequestCanceledError` if the signal aborts first. */
+export function debounce(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCanceledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCanceledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Runs network requests with a concurrency cap, sharing a single request
+ * between concurrent callers asking for the same key. The shared request is
+ * only aborted once every caller waiting on it has been canceled.
+ */
+export class RequestScheduler {
+  private inFlight = new Map<string, InFlightRequest>();
+  private queue: Array<() => void> = [];
+  private running = 0;
+
+  constructor(private readonly maxConcurrency: () => number) {}
+
+  run<T>(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCanceledError());
+    }
+
+    let request = this.inFlight.get(key);
+    // A request abandoned by all its callers is still settling; start a fresh one
+    if (!request || request.controller.signal.aborted) {
+      const controller = new AbortController();
+      const promise = this.schedule(() => task(controller.signal), controller.signal)
+        .finally(() => {
+          if (this.inFlight.get(key) === request) {
+            this.inFlight.delete(key);
+          }
+        });
+      // Every caller may give up; the shared promise must not surface as unhandled
+      promise.catch(() => undefined);
+      request = { promise, controller, waiters: 0 };
+      this.inFlight.set(key, request);
+    }
+    return this.wait(request, signal) as Promise<T>;
+  }
+
+  private wait(request: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+    request.waiters++;
+    if (!signal) {
+      return request.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(new RequestCanceledError());
+        if (--request.waiters === 0) {
+          request.controller.abort();
+        }
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      request.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  private async schedule<T>(task: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    if (this.running >= Math.max(1, this.maxConcurrency())) {
+      await new Promise<void>((resolve, reject) => {
+        const start = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          this.queue = this.queue.filter(entry => entry !== start);
+          reject(new RequestCanceledError());
+        };
+        this.queue.push(start);
+        signal.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+
+    this.running++;
+    try {
+      return await task();
+    } finally {
+      this.running--;
+      this.queue.shift()?.();
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Reads NuGet restore errors and warnings (`NU1101`, `NU1102`, ...) from
+ * `dotnet` output and attributes them to the `#:package` directive of the
+ * package they mention.
+ */
+
+import { Directive, PackageDirective } from "./directiveParser";
+
+export interface RestoreMessage {
+  code: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface DirectiveRestoreMessage extends RestoreMessage {
+  /** Line of the `#:package` directive the message is about. */
+  line: number;
+}
+
+// `/src/app.csproj : error NU1101: Unable to find package Foo. ... [/src/app.csproj]`
+const RESTORE_MESSAGE_PATTERN = /^\s*(?:\d+>)?.*?:\s+(error|warning)\s+(NU\d{4})\s*:\s*(.*?)(?:\s+\[[^\]]*\])?\s*$/i;
+
+/** Restore messages in order of appearance; MSBuild repeats them in its summary, which is dropped. */
+export function parseRestoreMessages(output: string): RestoreMessage[] {
+  const messages = new Map<string, RestoreMessage>();
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.match(RESTORE_MESSAGE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const message: RestoreMessage = {
+      code: match[2].toUpperCase(),
+      severity: match[1].toLowerCase() as RestoreMessage["severity"],
+      message: match[3]
+    };
+    const key = `${message.code}|${message.message}`;
+    if (!messages.has(key)) {
+      messages.set(key, message);
+    }
+  }
+  return [...messages.values()];
+}
+
+/**
+ * Pairs restore messages with the directive of the first package they
+ * name. Messages about packages without a directive, such as transitive
+ * dependencies, are left out.
+ */
+export function mapRestoreMessages(messages: RestoreMessage[], directives: Directive[]): DirectiveRestoreMessage[] {
+  const packages = directives.filter(
+    (directive): directive is PackageDirective => directive.kind === "package" && !!directive.id
+  );
+  return messages.flatMap(message => {
+    let first: { index: number; line: number } | undefined;
+    for (const directive of packages) {
+      const index = findPackageId(message.message, directive.id!.text);
+      if (index >= 0 && (!first || index < first.index)) {
+        first = { index, line: directive.line };
+      }
+    }
+    return first ? [{ ...message, line: first.line }] : [];
+  });
+}
+
+/** Position of a package id in a message, not counting longer ids that start with it. */
+function findPackageId(message: string, packageId: string): number {
+  const escaped = packageId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return message.search(new RegExp(`(?<![\\w.-])${escaped}(?![\\w-]|\\.\\w)`, "i"));
+}
@@ -0,0 +1,74 @@
+/**
+ * Typed access to the `csharpPackageAutocomplete.*` settings. Values are
+ * read on every use, so changes apply without a reload; pass the document's
+ * uri so that folder-level overrides in a multi-root workspace are honored.
+ */
+
+import * as vscode from "vscode";
+import { DIRECTIVE_KINDS, DirectiveKind } from "./directiveParser";
+import { FeedRequestSettings } from "./feedClient";
+
+export const SETTINGS_SECTION = "csharpPackageAutocomplete";
+
+/** Characters that open the completion list; `#` and `:` start a directive. */
+export const DEFAULT_TRIGGER_CHARACTERS = ["#", ":", " ", "@", ".", "/"];
+
+/** `downloads` ranks package completions by popularity, `relevance` keeps the feed's search order. */
+export type RankingMode = "downloads" | "relevance";
+
+export interface CompletionSettings {
+  /** Completion per directive kind; the directive names themselves are always completed. */
+  enabled: Record<DirectiveKind, boolean>;
+  includePrerelease: boolean;
+  /** Packages requested per feed for each search. */
+  searchResults: number;
+  /** Versions listed after `@`. */
+  versionResults: number;
+  ranking: RankingMode;
+}
+
+export interface FeedSettings extends FeedRequestSettings {
+  /** Feed URLs queried in addition to the nuget.config sources. */
+  additionalSources: string[];
+}
+
+export function getCompletionSettings(uri?: vscode.Uri): CompletionSettings {
+  const configuration = vscode.workspace.getConfiguration(SETTINGS_SECTION, uri);
+  const enabled = configuration.get<Partial<Record<DirectiveKind, boolean>>>("completion.enabled", {});
+  return {
+    enabled: Object.fromEntries(DIRECTIVE_KINDS.map(kind => [kind, enabled[kind] !== false])) as Record<DirectiveKind, boolean>,
+    includePrerelease: configuration.get<boolean>("includePrerelease", false),
+    searchResults: clamp(configuration.get<number>("completion.searchResults", 20), 1, 100),
+    versionResults: clamp(configuration.get<number>("completion.versionResults", 10), 1, 100),
+    ranking: configuration.get<RankingMode>("completion.ranking", "downloads")
+  };
+}
+
+export function getTriggerCharacters(): string[] {
+  const characters = vscode.workspace
+    .getConfiguration(SETTINGS_SECTION)
+    .get<string[]>("completion.triggerCharacters", DEFAULT_TRIGGER_CHARACTERS);
+  // A provider only accepts single characters
+  return characters.filter(character => character.length === 1);
+}
+
+export function isHoverEnabled(uri?: vscode.Uri): boolean {
+  return vscode.workspace.getConfiguration(SETTINGS_SECTION, uri).get<boolean>("hover.enabled", true);
+}
+
+/** Falls back to VS Code's own `http.proxy` settings when no feed proxy is configured. */
+export function getFeedSettings(uri?: vscode.Uri): FeedSettings {
+  const configuration = vscode.workspace.getConfiguration(SETTINGS_SECTION, uri);
+  const http = vscode.workspace.getConfiguration("http");
+  return {
+    additionalSources: configuration.get<string[]>("feeds.additionalSources", []).filter(url => url.trim()),
+    timeout: clamp(configuration.get<number>("feeds.timeout", 5000), 500, 120000),
+    cacheDuration: clamp(configuration.get<number>("cache.ttlMinutes", 5), 0, 24 * 60) * 60 * 1000,
+    proxy: configuration.get<string>("feeds.proxy", "").trim() || http.get<string>("proxy", "").trim() || undefined,
+    strictSSL: http.get<boolean>("proxyStrictSSL", true)
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+}
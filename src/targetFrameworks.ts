@@ -0,0 +1,186 @@
+/**
+ * Target framework monikers and a simplified version of NuGet's framework
+ * compatibility rules, enough to pick the dependency group or assets a
+ * package offers for a file-based app.
+ */
+
+export type FrameworkFamily = "core" | "netstandard" | "netframework";
+
+export interface TargetFramework {
+  /** `net5.0` and later are .NET Core, as are `netcoreapp*` frameworks. */
+  family: FrameworkFamily;
+  version: number[];
+  /** Lower-case OS part of `net8.0-windows10.0.19041`, without its version. */
+  platform?: string;
+}
+
+// Newest .NET Framework in NuGet's default AssetTargetFallback (net461;...;net481)
+const FALLBACK_FRAMEWORK_MAXIMUM = [4, 8, 1];
+
+/** Minimum .NET Core and .NET Framework versions implementing each .NET Standard version. */
+const NETSTANDARD_IMPLEMENTATIONS: Array<{ netstandard: number[]; core: number[]; netframework?: number[] }> = [
+  { netstandard: [2, 1], core: [3, 0] },
+  { netstandard: [2, 0], core: [2, 0], netframework: [4, 6, 1] },
+  { netstandard: [1, 0], core: [1, 0], netframework: [4, 5] }
+];
+
+/**
+ * Parses short (`net10.0`, `netstandard2.0`, `net462`) and long
+ * (`.NETStandard2.0`, `.NETFramework4.6.2`) framework names, as used in
+ * project files and in NuGet dependency groups respectively.
+ */
+export function parseTargetFramework(moniker: string): TargetFramework | undefined {
+  const name = moniker.trim().toLowerCase();
+
+  const longForm = name.match(/^\.net(standard|coreapp|framework)(\d+(?:\.\d+)*)$/);
+  if (longForm) {
+    const version = parseVersionParts(longForm[2]);
+    return longForm[1] === "standard"
+      ? { family: "netstandard", version }
+      : { family: longForm[1] === "coreapp" ? "core" : "netframework", version };
+  }
+
+  const standard = name.match(/^netstandard(\d+\.\d+)$/);
+  if (standard) {
+    return { family: "netstandard", version: parseVersionParts(standard[1]) };
+  }
+
+  const coreApp = name.match(/^netcoreapp(\d+\.\d+)$/);
+  if (coreApp) {
+    return { family: "core", version: parseVersionParts(coreApp[1]) };
+  }
+
+  const modern = name.match(/^net(\d+\.\d+)(?:-([a-z]+)[\d.]*)?$/);
+  if (modern) {
+    const version = parseVersionParts(modern[1]);
+    return version[0] >= 5
+      ? { family: "core", version, platform: modern[2] }
+      : { family: "netframework", version };
+  }
+
+  // `net462` is .NET Framework 4.6.2
+  const framework = name.match(/^net(\d)(\d)(\d)?$/);
+  if (framework) {
+    return { family: "netframework", version: framework.slice(1).filter(Boolean).map(Number) };
+  }
+  return undefined;
+}
+
+/**
+ * True when a project targeting `target` can consume assets built for
+ * `candidate`, including .NET Framework assets that .NET Core 2.0 and later
+ * fall back to (NuGet's AssetTargetFallback, restored with warning NU1701).
+ */
+export function isCompatibleFramework(target: TargetFramework, candidate: TargetFramework): boolean {
+  if (candidate.platform && candidate.platform !== target.platform) {
+    return false;
+  }
+  if (candidate.family === target.family) {
+    return compareVersionParts(candidate.version, target.version) <= 0;
+  }
+  if (isFallbackFramework(target, candidate)) {
+    return true;
+  }
+  if (candidate.family !== "netstandard") {
+    return false;
+  }
+
+  // .NET Standard assets work on every runtime implementing that version
+  const implementation = NETSTANDARD_IMPLEMENTATIONS.find(entry =>
+    compareVersionParts(candidate.version, entry.netstandard) >= 0
+  );
+  const minimum = implementation && (target.family === "core" ? implementation.core : implementation.netframework);
+  return !!minimum && compareVersionParts(target.version, minimum) >= 0;
+}
+
+/** True when `candidate` is only usable by `target` through the .NET Framework fallback. */
+export function isFallbackFramework(target: TargetFramework, candidate: TargetFramework): boolean {
+  return target.family === "core" && compareVersionParts(target.version, [2, 0]) >= 0 &&
+    candidate.family === "netframework" && compareVersionParts(candidate.version, FALLBACK_FRAMEWORK_MAXIMUM) <= 0;
+}
+
+/**
+ * Picks the framework NuGet would choose for `target` among the ones a
+ * package supports: same family before .NET Standard before the .NET
+ * Framework fallback, platform-specific before platform-neutral, then the
+ * highest version. Returns undefined when none is compatible.
+ */
+export function selectNearestFramework(target: TargetFramework, candidates: string[]): string | undefined {
+  let best: { moniker: string; framework: TargetFramework } | undefined;
+  for (const moniker of candidates) {
+    const framework = parseTargetFramework(moniker);
+    if (!framework || !isCompatibleFramework(target, framework)) {
+      continue;
+    }
+    if (!best || compareNearness(framework, best.framework, target) > 0) {
+      best = { moniker, framework };
+    }
+  }
+  return best?.moniker;
+}
+
+/**
+ * The dependency group of a package that applies to `target`. A group
+ * without a framework applies to every framework without a closer match.
+ */
+export function selectDependencyGroup<T extends { targetFramework?: string }>(
+  groups: T[],
+  target: TargetFramework
+): T | undefined {
+  const nearest = selectNearestFramework(
+    target,
+    groups.map(group => group.targetFramework).filter((framework): framework is string => !!framework)
+  );
+  const nearestGroup = nearest !== undefined ? groups.find(group => group.targetFramework === nearest) : undefined;
+  const neutralGroup = groups.find(group => !group.targetFramework);
+  // The fallback only applies when nothing else does, a framework-neutral group included
+  const nearestFramework = nearest !== undefined ? parseTargetFramework(nearest) : undefined;
+  const fallback = !!nearestFramework && isFallbackFramework(target, nearestFramework);
+  return fallback ? neutralGroup ?? nearestGroup : nearestGroup ?? neutralGroup;
+}
+
+/**
+ * Whether a package version with these dependency groups can be used by a
+ * project targeting `target`. Undefined when it declares no groups, which
+ * says nothing about the frameworks its assets support.
+ */
+export function supportsFramework(groups: Array<{ targetFramework?: string }>, target: TargetFramework): boolean | undefined {
+  if (groups.length === 0) {
+    return undefined;
+  }
+  return groups.some(group => !group.targetFramework) || selectDependencyGroup(groups, target) !== undefined;
+}
+
+function compareNearness(a: TargetFramework, b: TargetFramework, target: TargetFramework): number {
+  const family = familyRank(a, target) - familyRank(b, target);
+  if (family !== 0) {
+    return family;
+  }
+  const platformSpecific = Number(!!a.platform) - Number(!!b.platform);
+  if (platformSpecific !== 0) {
+    return platformSpecific;
+  }
+  return compareVersionParts(a.version, b.version);
+}
+
+/** Same family first, then .NET Standard, then the .NET Framework fallback. */
+function familyRank(framework: TargetFramework, target: TargetFramework): number {
+  if (framework.family === target.family) {
+    return 2;
+  }
+  return isFallbackFramework(target, framework) ? 0 : 1;
+}
+
+function parseVersionParts(version: string): number[] {
+  return version.split(".").map(Number);
+}
+
+function compareVersionParts(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,79 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { validatePropertyContribution, validateSdkContribution } from "../directiveInfo";
+
+describe("validateSdkContribution", () => {
+  it("accepts well-formed entries", () => {
+    const sdk = { id: "Contoso.Sdk", displayName: "Contoso SDK", targetFrameworkPattern: "^net\\d+\\.0$" };
+    assert.deepStrictEqual(validateSdkContribution(sdk), sdk);
+    assert.deepStrictEqual(validateSdkContribution({ id: "Microsoft.NET.Sdk.Web" }), { id: "Microsoft.NET.Sdk.Web" });
+  });
+
+  it("rejects entries that are not objects or lack a valid id", () => {
+    assert.strictEqual(validateSdkContribution("Contoso.Sdk"), "SDK entries must be objects");
+    assert.strictEqual(validateSdkContribution(["Contoso.Sdk"]), "SDK entries must be objects");
+    assert.strictEqual(validateSdkContribution(null), "SDK entries must be objects");
+    assert.strictEqual(validateSdkContribution({}), "invalid SDK id undefined");
+    assert.strictEqual(validateSdkContribution({ id: "Contoso Sdk" }), 'invalid SDK id "Contoso Sdk"');
+  });
+
+  it("rejects fields of the wrong type and invalid patterns", () => {
+    assert.strictEqual(
+      validateSdkContribution({ id: "Contoso.Sdk", defaultTargetFramework: 10 }),
+      "SDK 'Contoso.Sdk': 'defaultTargetFramework' must be a string"
+    );
+    assert.strictEqual(
+      validateSdkContribution({ id: "Contoso.Sdk", targetFrameworkPattern: "^net(" }),
+      "SDK 'Contoso.Sdk': 'targetFrameworkPattern' is not a valid regular expression"
+    );
+  });
+});
+
+describe("validatePropertyContribution", () => {
+  it("accepts well-formed entries", () => {
+    const property = { name: "ContosoMode", type: "enum", possibleValues: ["fast", "safe"], defaultValue: "Safe", sdks: ["Contoso.Sdk"] };
+    assert.deepStrictEqual(validatePropertyContribution(property), property);
+    assert.deepStrictEqual(validatePropertyContribution({ name: "ContosoLevel", type: "int" }), { name: "ContosoLevel", type: "int" });
+  });
+
+  it("rejects entries that are not objects or lack a valid name", () => {
+    assert.strictEqual(validatePropertyContribution(42), "property entries must be objects");
+    assert.strictEqual(validatePropertyContribution({ name: "1st" }), 'invalid property name "1st"');
+    assert.strictEqual(validatePropertyContribution({ description: "no name" }), "invalid property name undefined");
+  });
+
+  it("rejects fields of the wrong type", () => {
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", description: ["fast"] }),
+      "property 'ContosoMode': 'description' must be a string"
+    );
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", type: "number" }),
+      "property 'ContosoMode': 'type' must be one of bool, enum, int, version, tfm, rid, list, text"
+    );
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", sdks: "Contoso.Sdk" }),
+      "property 'ContosoMode': 'sdks' must be an array of SDK ids"
+    );
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", sdks: ["Contoso Sdk"] }),
+      "property 'ContosoMode': 'sdks' must be an array of SDK ids"
+    );
+  });
+
+  it("rejects invalid possible values and defaults outside an enumeration", () => {
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", possibleValues: ["fast", ""] }),
+      "property 'ContosoMode': 'possibleValues' must be an array of non-empty strings"
+    );
+    assert.strictEqual(
+      validatePropertyContribution({ name: "ContosoMode", possibleValues: ["fast", "safe"], defaultValue: "slow" }),
+      "property 'ContosoMode': default value 'slow' is not one of its possible values"
+    );
+    // For other types the possible values are suggestions only
+    assert.notStrictEqual(
+      typeof validatePropertyContribution({ name: "ContosoLevel", type: "int", possibleValues: ["1", "2"], defaultValue: "3" }),
+      "string"
+    );
+  });
+});
@@ -0,0 +1,267 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import {
+  directiveKey,
+  directiveVersion,
+  findDirectiveInsertLine,
+  groupDuplicateDirectives,
+  parseDirectiveLine,
+  parseDirectives,
+  tokenAt
+} from "../directiveParser";
+
+describe("parseDirectiveLine", () => {
+  it("ignores lines that are not directives", () => {
+    assert.strictEqual(parseDirectiveLine("using System;"), undefined);
+    assert.strictEqual(parseDirectiveLine("#!/usr/bin/env dotnet run"), undefined);
+    assert.strictEqual(parseDirectiveLine("// #:package Foo@1.0.0"), undefined);
+  });
+
+  it("parses a package id and version with their columns", () => {
+    const directive = parseDirectiveLine("#:package Humanizer@2.14.1", 3);
+    assert.ok(directive?.kind === "package");
+    assert.strictEqual(directive.line, 3);
+    assert.deepStrictEqual(directive.keyword, { text: "package", start: 2, end: 9 });
+    assert.deepStrictEqual(directive.id, { text: "Humanizer", start: 10, end: 19 });
+    assert.deepStrictEqual(directive.version, { text: "2.14.1", start: 20, end: 26 });
+    assert.deepStrictEqual(directive.errors, []);
+  });
+
+  it("accepts ids containing dashes and underscores", () => {
+    for (const id of ["Foo-Bar", "Foo_Bar.Baz", "My.Package-Extensions", "_Internal.Tools"]) {
+      const directive = parseDirectiveLine(`#:package ${id}@1.0.0`);
+      assert.ok(directive?.kind === "package");
+      assert.strictEqual(directive.id?.text, id);
+      assert.deepStrictEqual(directive.errors, [], id);
+    }
+  });
+
+  it("accepts prerelease, build metadata and floating versions", () => {
+    for (const version of ["10.0.0-preview.7.25380.108", "1.0.0+sha.5114f85", "10.*-*", "[1.0,2.0)"]) {
+      const directive = parseDirectiveLine(`#:package Foo@${version}`);
+      assert.ok(directive?.kind === "package");
+      assert.strictEqual(directive.version?.text, version);
+      assert.deepStrictEqual(directive.errors, [], version);
+    }
+  });
+
+  it("handles leading and trailing whitespace", () => {
+    const directive = parseDirectiveLine("  #:package Foo@1.0.0  \t");
+    assert.ok(directive?.kind === "package");
+    assert.strictEqual(directive.start, 2);
+    assert.strictEqual(directive.end, 21);
+    assert.deepStrictEqual(directive.version, { text: "1.0.0", start: 16, end: 21 });
+    assert.deepStrictEqual(directive.errors, []);
+  });
+
+  it("parses a package without a version", () => {
+    const directive = parseDirectiveLine("#:package Foo");
+    assert.ok(directive?.kind === "package");
+    assert.strictEqual(directive.id?.text, "Foo");
+    assert.strictEqual(directive.version, undefined);
+    assert.deepStrictEqual(directive.errors, []);
+  });
+
+  it("reports an empty version after '@'", () => {
+    const directive = parseDirectiveLine("#:package Foo@");
+    assert.ok(directive?.kind === "package");
+    assert.deepStrictEqual(directive.version, { text: "", start: 14, end: 14 });
+    assert.strictEqual(directive.errors.length, 1);
+    assert.match(directive.errors[0].message, /Missing version after '@'/);
+  });
+
+  it("reports malformed package references", () => {
+    for (const argument of ["Foo@1.0@2.0", "Foo..Bar@1.0", "Foo@1.0 extra", "-Foo@1.0"]) {
+      const directive = parseDirectiveLine(`#:package ${argument}`);
+      assert.strictEqual(directive?.errors.length, 1, argument);
+      assert.strictEqual(directive.errors[0].code, "invalid-syntax");
+      assert.deepStrictEqual(
+        [directive.errors[0].start, directive.errors[0].end],
+        [10, 10 + argument.length],
+        argument
+      );
+    }
+  });
+
+  it("parses versioned and unversioned SDKs", () => {
+    const plain = parseDirectiveLine("#:sdk Microsoft.NET.Sdk.Web");
+    assert.ok(plain?.kind === "sdk");
+    assert.strictEqual(plain.name?.text, "Microsoft.NET.Sdk.Web");
+    assert.strictEqual(plain.version, undefined);
+
+    const versioned = parseDirectiveLine("#:sdk Aspire.AppHost.Sdk@9.4.0");
+    assert.ok(versioned?.kind === "sdk");
+    assert.strictEqual(versioned.name?.text, "Aspire.AppHost.Sdk");
+    assert.deepStrictEqual(versioned.version, { text: "9.4.0", start: 25, end: 30 });
+    assert.deepStrictEqual(versioned.errors, []);
+
+    assert.strictEqual(parseDirectiveLine("#:sdk Aspire.AppHost.Sdk@")?.errors.length, 1);
+  });
+
+  it("parses properties written with a space or '='", () => {
+    for (const line of ["#:property LangVersion preview", "#:property LangVersion=preview", "#:property LangVersion = preview"]) {
+      const directive = parseDirectiveLine(line);
+      assert.ok(directive?.kind === "property");
+      assert.strictEqual(directive.name?.text, "LangVersion");
+      assert.strictEqual(directive.value?.text, "preview");
+      assert.strictEqual(directive.value.end, line.length);
+      assert.deepStrictEqual(directive.errors, [], line);
+    }
+  });
+
+  it("keeps spaces inside property values", () => {
+    const directive = parseDirectiveLine("#:property DefineConstants DEBUG;TRACE MY FLAG ");
+    assert.ok(directive?.kind === "property");
+    assert.strictEqual(directive.value?.text, "DEBUG;TRACE MY FLAG");
+  });
+
+  it("reports properties without a value", () => {
+    for (const line of ["#:property Nullable", "#:property Nullable=", "#:property 1Nullable enable"]) {
+      const directive = parseDirectiveLine(line);
+      assert.strictEqual(directive?.errors.length, 1, line);
+      assert.match(directive.errors[0].message, /Expected '#:property Name=Value'/);
+    }
+  });
+
+  it("parses project paths including spaces", () => {
+    const directive = parseDirectiveLine("#:project ../My Lib/My Lib.csproj ");
+    assert.ok(directive?.kind === "project");
+    assert.deepStrictEqual(directive.path, { text: "../My Lib/My Lib.csproj", start: 10, end: 33 });
+    assert.deepStrictEqual(directive.errors, []);
+  });
+
+  it("reports unknown directives", () => {
+    const directive = parseDirectiveLine("#:packages Foo@1.0");
+    assert.strictEqual(directive?.kind, "unknown");
+    assert.strictEqual(directive.errors[0].code, "unknown-directive");
+    assert.deepStrictEqual([directive.errors[0].start, directive.errors[0].end], [0, 10]);
+  });
+
+  it("reports directives without a value", () => {
+    for (const line of ["#:package", "#:sdk   ", "#:project"]) {
+      const directive = parseDirectiveLine(line);
+      assert.strictEqual(directive?.errors.length, 1, line);
+      assert.match(directive.errors[0].message, /directive requires a value/);
+    }
+  });
+
+  it("parses incomplete text before the cursor", () => {
+    const afterKeyword = parseDirectiveLine("#:package ");
+    assert.ok(afterKeyword?.kind === "package");
+    assert.deepStrictEqual(afterKeyword.id, { text: "", start: 10, end: 10 });
+
+    const keywordOnly = parseDirectiveLine("#:pack");
+    assert.strictEqual(keywordOnly?.keyword.text, "pack");
+    assert.strictEqual(keywordOnly.argument, undefined);
+
+    const propertyName = parseDirectiveLine("#:property Lang");
+    assert.ok(propertyName?.kind === "property");
+    assert.strictEqual(propertyName.value, undefined);
+
+    const propertyValue = parseDirectiveLine("#:property LangVersion ");
+    assert.ok(propertyValue?.kind === "property");
+    assert.deepStrictEqual(propertyValue.value, { text: "", start: 23, end: 23 });
+  });
+});
+
+describe("parseDirectives", () => {
+  it("parses every directive in a document and skips a shebang", () => {
+    const document = parseDirectives([
+      "#!/usr/bin/env dotnet run",
+      "#:sdk Microsoft.NET.Sdk.Web",
+      "#:package Humanizer@2.14.1",
+      "",
+      "Console.WriteLine(\"Hello\");"
+    ].join("\r\n"));
+
+    assert.strictEqual(document.hasShebang, true);
+    assert.deepStrictEqual(document.directives.map(d => [d.line, d.kind]), [[1, "sdk"], [2, "package"]]);
+  });
+
+  it("finds the first line of code after comments and preprocessor lines", () => {
+    const document = parseDirectives([
+      "#!/usr/bin/env dotnet run",
+      "// Sample app",
+      "/* multi-line",
+      "   header */",
+      "#:package Foo@1.0.0",
+      "#nullable enable",
+      "",
+      "var text = \"/* not a comment\";",
+      "#:package Bar@1.0.0"
+    ].join("\n"));
+
+    assert.strictEqual(document.firstCodeLine, 7);
+    assert.deepStrictEqual(document.directives.map(d => d.line), [4, 8]);
+  });
+
+  it("skips directives inside block comments", () => {
+    const document = parseDirectives([
+      "/*",
+      "#:package Foo@1.0.0",
+      "*/",
+      "#:package Bar@1.0.0"
+    ].join("\n"));
+
+    assert.strictEqual(document.firstCodeLine, undefined);
+    assert.deepStrictEqual(document.directives.map(d => d.line), [3]);
+  });
+
+  it("treats code after a closing comment as code", () => {
+    const document = parseDirectives("/* header */ Console.WriteLine();\n#:package Foo@1.0.0");
+    assert.strictEqual(document.firstCodeLine, 0);
+    assert.strictEqual(document.directives[0].line, 1);
+  });
+
+  it("reports documents without a shebang", () => {
+    const document = parseDirectives("#:package Foo@1.0.0\n");
+    assert.strictEqual(document.hasShebang, false);
+    assert.strictEqual(document.directives.length, 1);
+  });
+});
+
+describe("tokenAt", () => {
+  it("finds the token under a column", () => {
+    const directive = parseDirectiveLine("#:package Humanizer@2.14.1")!;
+    assert.strictEqual(tokenAt(directive, 4)?.text, "package");
+    assert.strictEqual(tokenAt(directive, 12)?.text, "Humanizer");
+    assert.strictEqual(tokenAt(directive, 22)?.text, "2.14.1");
+    assert.strictEqual(tokenAt(directive, 0), undefined);
+  });
+});
+
+describe("directiveKey", () => {
+  it("matches directives declaring the same thing", () => {
+    const key = (line: string) => directiveKey(parseDirectiveLine(line)!);
+    assert.strictEqual(key("#:package Foo@1.0.0"), key("#:package foo@2.0.0"));
+    assert.strictEqual(key("#:property Nullable enable"), key("#:property nullable=disable"));
+    assert.strictEqual(key("#:project ..\\Lib\\"), key("#:project ../Lib"));
+    assert.notStrictEqual(key("#:sdk Foo"), key("#:package Foo@1.0.0"));
+    assert.strictEqual(key("#:unknown Foo"), undefined);
+  });
+});
+
+describe("groupDuplicateDirectives", () => {
+  it("groups valid directives with the same key", () => {
+    const { directives } = parseDirectives([
+      "#:package Foo@1.0.0",
+      "#:package Bar@1.0.0",
+      "#:package foo@2.0.0",
+      "#:package Foo@",
+      "#:sdk Foo"
+    ].join("\n"));
+    const groups = groupDuplicateDirectives(directives);
+    assert.strictEqual(groups.length, 1);
+    assert.deepStrictEqual(groups[0].map(directiveVersion), ["1.0.0", "2.0.0"]);
+  });
+});
+
+describe("findDirectiveInsertLine", () => {
+  it("inserts after directives of the same kind that precede the code", () => {
+    const parsed = parseDirectives("#!/usr/bin/env dotnet\n#:package Foo@1.0.0\n#:property Nullable=enable\nConsole.WriteLine();\n#:package Late@1.0.0\n");
+    assert.strictEqual(findDirectiveInsertLine(parsed, "package"), 2);
+    assert.strictEqual(findDirectiveInsertLine(parsed, "sdk"), 3);
+    assert.strictEqual(findDirectiveInsertLine(parseDirectives("#!/usr/bin/env dotnet\nConsole.WriteLine();\n"), "package"), 1);
+    assert.strictEqual(findDirectiveInsertLine(parseDirectives("Console.WriteLine();\n")), 0);
+  });
+});
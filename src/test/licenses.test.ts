@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { checkLicense, parseLicenseExpression } from "../licenses";
+
+describe("parseLicenseExpression", () => {
+  it("applies SPDX operator precedence", () => {
+    assert.deepStrictEqual(parseLicenseExpression("MIT OR Apache-2.0 AND BSD-3-Clause"), {
+      kind: "or",
+      left: { kind: "license", id: "MIT" },
+      right: {
+        kind: "and",
+        left: { kind: "license", id: "Apache-2.0" },
+        right: { kind: "license", id: "BSD-3-Clause" }
+      }
+    });
+    assert.deepStrictEqual(parseLicenseExpression("(MIT OR Apache-2.0) AND GPL-2.0-only WITH Classpath-exception-2.0"), {
+      kind: "and",
+      left: { kind: "or", left: { kind: "license", id: "MIT" }, right: { kind: "license", id: "Apache-2.0" } },
+      right: { kind: "license", id: "GPL-2.0-only", exception: "Classpath-exception-2.0" }
+    });
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const text of ["", "MIT OR", "(MIT", "MIT)", "MIT Apache-2.0", "MIT WITH", "AND MIT"]) {
+      assert.strictEqual(parseLicenseExpression(text), undefined, text);
+    }
+  });
+});
+
+describe("checkLicense", () => {
+  it("reports denied licenses, matching wildcards case-insensitively", () => {
+    const policy = { allowed: [], denied: ["GPL-*", "agpl-3.0-only"] };
+    assert.deepStrictEqual(checkLicense("MIT", policy), []);
+    assert.deepStrictEqual(checkLicense("GPL-3.0-or-later", policy), ["GPL-3.0-or-later"]);
+    assert.deepStrictEqual(checkLicense("MIT AND AGPL-3.0-only", policy), ["AGPL-3.0-only"]);
+    assert.deepStrictEqual(checkLicense("not a license (", policy), undefined);
+  });
+
+  it("accepts an OR expression when one alternative complies", () => {
+    const policy = { allowed: ["MIT", "Apache-2.0"], denied: [] };
+    assert.deepStrictEqual(checkLicense("MIT OR GPL-2.0-only", policy), []);
+    assert.deepStrictEqual(checkLicense("LGPL-2.1-only OR GPL-2.0-only", policy), ["LGPL-2.1-only", "GPL-2.0-only"]);
+  });
+
+  it("matches exceptions with or without the WITH clause", () => {
+    const license = "GPL-2.0-only WITH Classpath-exception-2.0";
+    assert.deepStrictEqual(checkLicense(license, { allowed: [license], denied: [] }), []);
+    assert.deepStrictEqual(checkLicense(license, { allowed: [], denied: ["GPL-2.0-only"] }), [license]);
+  });
+});
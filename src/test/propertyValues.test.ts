@@ -0,0 +1,54 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { checkPropertyValue, getValueType, suggestPropertyValues } from "../propertyValues";
+
+describe("checkPropertyValue", () => {
+  it("validates values by type", () => {
+    assert.strictEqual(checkPropertyValue({ type: "bool" }, "True"), undefined);
+    assert.strictEqual(checkPropertyValue({ type: "bool" }, "yes"), "Expected true or false");
+    assert.strictEqual(checkPropertyValue({ type: "int" }, "9999"), undefined);
+    assert.ok(checkPropertyValue({ type: "int" }, "4.5"));
+    assert.strictEqual(checkPropertyValue({ type: "version" }, "1.2.3-beta.1"), undefined);
+    assert.ok(checkPropertyValue({ type: "version" }, "v1"));
+    assert.strictEqual(checkPropertyValue({ type: "tfm" }, "net10.0-windows"), undefined);
+    assert.ok(checkPropertyValue({ type: "tfm" }, "dotnet10.0"));
+    assert.strictEqual(checkPropertyValue({ type: "text" }, "anything goes"), undefined);
+    assert.strictEqual(checkPropertyValue({ type: "list" }, "CS1591;;NU1603"), undefined);
+  });
+
+  it("accepts well-formed runtime identifiers only", () => {
+    for (const rid of ["linux-x64", "linux-musl-arm64", "osx.13-arm64", "win10-x86", "any"]) {
+      assert.strictEqual(checkPropertyValue({ type: "rid" }, rid), undefined, rid);
+    }
+    for (const rid of ["linux", "x64", "linux-amd64", "win x64"]) {
+      assert.ok(checkPropertyValue({ type: "rid" }, rid), rid);
+    }
+  });
+
+  it("restricts enumerations to their values, case-insensitively", () => {
+    const spec = { possibleValues: ["enable", "disable"] };
+    assert.strictEqual(getValueType(spec), "enum");
+    assert.strictEqual(checkPropertyValue(spec, "Enable"), undefined);
+    assert.strictEqual(checkPropertyValue(spec, "on"), "Possible values: enable, disable");
+  });
+
+  it("accepts property references of any type", () => {
+    assert.strictEqual(checkPropertyValue({ type: "bool" }, "$(IsPublishing)"), undefined);
+    assert.strictEqual(checkPropertyValue({ possibleValues: ["a"] }, "$(Other)"), undefined);
+  });
+});
+
+describe("suggestPropertyValues", () => {
+  it("offers the values matching what was typed", () => {
+    assert.deepStrictEqual(suggestPropertyValues({ type: "bool" }, "t"), { prefix: "t", values: ["true"] });
+    assert.deepStrictEqual(suggestPropertyValues({ type: "rid" }, "linux-musl").values, ["linux-musl-x64", "linux-musl-arm64"]);
+    assert.deepStrictEqual(suggestPropertyValues({ type: "version", defaultValue: "1.0.0" }, "").values, ["1.0.0"]);
+    assert.deepStrictEqual(suggestPropertyValues({ type: "text" }, "").values, []);
+  });
+
+  it("completes the last list item and skips listed ones", () => {
+    const spec = { type: "list" as const, possibleValues: ["CS1591", "CS8618", "NU1603"] };
+    assert.deepStrictEqual(suggestPropertyValues(spec, "CS1591;CS"), { prefix: "CS", values: ["CS8618"] });
+    assert.deepStrictEqual(suggestPropertyValues(spec, "CS1591;").values, ["CS8618", "NU1603"]);
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { parseDirectives } from "../directiveParser";
+import { mapRestoreMessages, parseRestoreMessages } from "../restoreOutput";
+
+const OUTPUT = [
+  "  Determining projects to restore...",
+  "/src/app.csproj : error NU1101: Unable to find package Foo.Bar. No packages exist with this id in source(s): nuget.org [/src/app.csproj]",
+  "/src/app.csproj : error NU1102: Unable to find package Foo with version (>= 99.0.0)",
+  "/src/app.cs(3,1): error CS1002: ; expected [/src/app.csproj]",
+  "/src/app.csproj : warning NU1603: Bar.Baz 1.0.0 depends on Transitive (>= 1.0.0) but Transitive 1.0.0 was not found.",
+  "",
+  "Build FAILED.",
+  "/src/app.csproj : error NU1101: Unable to find package Foo.Bar. No packages exist with this id in source(s): nuget.org [/src/app.csproj]"
+].join("\r\n");
+
+describe("parseRestoreMessages", () => {
+  it("reads NuGet messages once, without the project suffix", () => {
+    assert.deepStrictEqual(parseRestoreMessages(OUTPUT), [
+      {
+        code: "NU1101",
+        severity: "error",
+        message: "Unable to find package Foo.Bar. No packages exist with this id in source(s): nuget.org"
+      },
+      { code: "NU1102", severity: "error", message: "Unable to find package Foo with version (>= 99.0.0)" },
+      {
+        code: "NU1603",
+        severity: "warning",
+        message: "Bar.Baz 1.0.0 depends on Transitive (>= 1.0.0) but Transitive 1.0.0 was not found."
+      }
+    ]);
+  });
+});
+
+describe("mapRestoreMessages", () => {
+  it("attributes messages to the directive of the first package they name", () => {
+    const { directives } = parseDirectives("#:package Foo@99.0.0\n#:package Foo.Bar@1.0.0\n#:package bar.baz@1.0.0\n");
+    const mapped = mapRestoreMessages(parseRestoreMessages(OUTPUT), directives);
+    assert.deepStrictEqual(mapped.map(m => [m.code, m.line]), [["NU1101", 1], ["NU1102", 0], ["NU1603", 2]]);
+  });
+
+  it("leaves out packages without a directive", () => {
+    const { directives } = parseDirectives("#:package Other@1.0.0\n");
+    assert.deepStrictEqual(mapRestoreMessages(parseRestoreMessages(OUTPUT), directives), []);
+  });
+});
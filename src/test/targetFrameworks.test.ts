@@ -0,0 +1,68 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import {
+  parseTargetFramework,
+  selectDependencyGroup,
+  selectNearestFramework,
+  supportsFramework
+} from "../targetFrameworks";
+
+describe("parseTargetFramework", () => {
+  it("parses short and long framework names", () => {
+    assert.deepStrictEqual(parseTargetFramework("net10.0"), { family: "core", version: [10, 0], platform: undefined });
+    assert.deepStrictEqual(parseTargetFramework(".NETCoreApp3.1"), { family: "core", version: [3, 1] });
+    assert.deepStrictEqual(parseTargetFramework(".NETStandard2.0"), { family: "netstandard", version: [2, 0] });
+    assert.deepStrictEqual(parseTargetFramework("net462"), { family: "netframework", version: [4, 6, 2] });
+    assert.deepStrictEqual(parseTargetFramework(".NETFramework4.8"), { family: "netframework", version: [4, 8] });
+    assert.strictEqual(parseTargetFramework("net8.0-windows10.0.19041")?.platform, "windows");
+    assert.strictEqual(parseTargetFramework("portable-net45+win8"), undefined);
+  });
+});
+
+describe("selectNearestFramework", () => {
+  const supported = [".NETStandard2.0", ".NETFramework4.6.2", "net6.0", "net8.0-windows7.0"];
+
+  it("prefers the same family, then the highest compatible version", () => {
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net10.0")!, supported), "net6.0");
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net48")!, supported), ".NETFramework4.6.2");
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net8.0-windows")!, supported), "net8.0-windows7.0");
+  });
+
+  it("falls back to .NET Standard when supported by the runtime", () => {
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net5.0")!, supported), ".NETStandard2.0");
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net48")!, [".NETStandard2.1"]), undefined);
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("netstandard2.0")!, ["net6.0"]), undefined);
+  });
+
+  it("falls back to .NET Framework for .NET Core 2.0 and later, as a last resort", () => {
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net10.0")!, [".NETFramework4.6.2"]), ".NETFramework4.6.2");
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("net10.0")!, [".NETFramework4.8", ".NETStandard1.0"]), ".NETStandard1.0");
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("netcoreapp1.1")!, [".NETFramework4.6.2"]), undefined);
+    assert.strictEqual(selectNearestFramework(parseTargetFramework("netstandard2.0")!, [".NETFramework4.6.2"]), undefined);
+  });
+});
+
+describe("selectDependencyGroup", () => {
+  it("uses the framework-neutral group when no framework matches", () => {
+    const neutral = {};
+    const groups: Array<{ targetFramework?: string }> = [{ targetFramework: ".NETFramework4.6.2" }, neutral];
+    assert.strictEqual(selectDependencyGroup(groups, parseTargetFramework("net10.0")!), neutral);
+    assert.strictEqual(selectDependencyGroup(groups, parseTargetFramework("net48")!), groups[0]);
+  });
+
+  it("uses a .NET Framework group through the fallback when there is nothing else", () => {
+    const groups = [{ targetFramework: ".NETFramework4.5" }];
+    assert.strictEqual(selectDependencyGroup(groups, parseTargetFramework("net10.0")!), groups[0]);
+  });
+});
+
+describe("supportsFramework", () => {
+  it("is unknown without dependency groups", () => {
+    const net10 = parseTargetFramework("net10.0")!;
+    assert.strictEqual(supportsFramework([], net10), undefined);
+    assert.strictEqual(supportsFramework([{}], net10), true);
+    assert.strictEqual(supportsFramework([{ targetFramework: ".NETFramework4.6.2" }], net10), true);
+    assert.strictEqual(supportsFramework([{ targetFramework: "net8.0-windows7.0" }], net10), false);
+    assert.strictEqual(supportsFramework([{ targetFramework: ".NETStandard2.0" }], net10), true);
+  });
+});
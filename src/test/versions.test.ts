@@ -0,0 +1,139 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import {
+  compareVersions,
+  findLatestVersion,
+  findUpdate,
+  isPrerelease,
+  normalizeVersion,
+  parseVersion,
+  parseVersionRange,
+  resolveVersion
+} from "../versions";
+
+describe("parseVersion", () => {
+  it("parses four-part versions with labels and metadata", () => {
+    assert.deepStrictEqual(parseVersion("1.2.3.4-beta.1+sha.abc"), {
+      major: 1,
+      minor: 2,
+      patch: 3,
+      revision: 4,
+      releaseLabels: ["beta", "1"],
+      metadata: "sha.abc"
+    });
+    assert.deepStrictEqual(parseVersion("01.2"), {
+      major: 1,
+      minor: 2,
+      patch: 0,
+      revision: 0,
+      releaseLabels: [],
+      metadata: undefined
+    });
+  });
+
+  it("rejects malformed versions", () => {
+    for (const text of ["", "v1.0", "1.0.0.0.0", "1.0-", "1..0", "1.0.0-beta..1"]) {
+      assert.strictEqual(parseVersion(text), undefined, text);
+    }
+  });
+});
+
+describe("compareVersions", () => {
+  it("compares release labels by identifier, numerically where both are numeric", () => {
+    assert.ok(compareVersions("1.0.0-alpha.10", "1.0.0-alpha.2") > 0);
+    assert.ok(compareVersions("1.0.0-beta", "1.0.0-alpha.2") > 0);
+    assert.ok(compareVersions("1.0.0-alpha.beta", "1.0.0-alpha.1") > 0);
+    assert.ok(compareVersions("1.0.0-alpha.1", "1.0.0-alpha") > 0);
+    assert.strictEqual(compareVersions("1.0.0-RC.1", "1.0.0-rc.1"), 0);
+  });
+
+  it("ranks a release above its prereleases", () => {
+    assert.ok(compareVersions("1.0.0", "1.0.0-rc.1") > 0);
+    assert.ok(compareVersions("1.0.1-alpha", "1.0.0") > 0);
+  });
+
+  it("ignores build metadata and leading zeros", () => {
+    assert.strictEqual(compareVersions("1.0.0+meta", "1.0.0"), 0);
+    assert.strictEqual(compareVersions("01.2", "1.2.0"), 0);
+  });
+
+  it("compares the fourth part", () => {
+    assert.ok(compareVersions("1.0.0.1", "1.0.0") > 0);
+    assert.strictEqual(compareVersions("1.0.0.0", "1.0.0"), 0);
+  });
+
+  it("sorts invalid versions first", () => {
+    assert.deepStrictEqual(["2.0.0", "latest", "1.0.0"].sort(compareVersions), ["latest", "1.0.0", "2.0.0"]);
+  });
+});
+
+describe("normalizeVersion", () => {
+  it("drops leading zeros, metadata and a zero revision", () => {
+    assert.strictEqual(normalizeVersion("01.02.03.0+meta"), "1.2.3");
+    assert.strictEqual(normalizeVersion("1.0.0.4-Beta"), "1.0.0.4-beta");
+  });
+});
+
+describe("isPrerelease", () => {
+  it("looks at the release label only", () => {
+    assert.strictEqual(isPrerelease("1.0.0-beta"), true);
+    assert.strictEqual(isPrerelease("1.0.0+build-5"), false);
+  });
+});
+
+describe("findLatestVersion", () => {
+  it("prefers the newest stable version", () => {
+    assert.strictEqual(findLatestVersion(["1.0.0", "2.0.0-beta", "1.10.0", "1.9.0"]), "1.10.0");
+    assert.strictEqual(findLatestVersion(["1.0.0-alpha", "1.0.0-beta"]), "1.0.0-beta");
+    assert.strictEqual(findLatestVersion([]), undefined);
+  });
+});
+
+describe("findUpdate", () => {
+  const versions = ["1.2.3", "1.2.4", "1.3.0", "2.0.0", "2.1.0-beta"];
+
+  it("respects the update level", () => {
+    assert.strictEqual(findUpdate("1.2.3", versions, "major"), "2.0.0");
+    assert.strictEqual(findUpdate("1.2.3", versions, "minor"), "1.3.0");
+    assert.strictEqual(findUpdate("1.2.3", versions, "patch"), "1.2.4");
+  });
+
+  it("returns undefined when up to date", () => {
+    assert.strictEqual(findUpdate("2.0.0", versions), undefined);
+    assert.strictEqual(findUpdate("1.2.4", versions, "patch"), undefined);
+  });
+
+  it("offers prereleases only from a prerelease", () => {
+    assert.strictEqual(findUpdate("2.0.0-rc.1", versions), "2.1.0-beta");
+    assert.strictEqual(findUpdate("not-a-version", versions), undefined);
+  });
+});
+
+describe("parseVersionRange", () => {
+  it("parses bare versions, exact versions and intervals", () => {
+    assert.deepStrictEqual(parseVersionRange("1.0"), { minVersion: "1.0", minInclusive: true, maxInclusive: false });
+    assert.deepStrictEqual(parseVersionRange("[1.0]"), { minVersion: "1.0", minInclusive: true, maxVersion: "1.0", maxInclusive: true });
+    assert.deepStrictEqual(parseVersionRange("(, 2.0]"), { minVersion: undefined, minInclusive: false, maxVersion: "2.0", maxInclusive: true });
+    assert.strictEqual(parseVersionRange("[1.0"), undefined);
+    assert.strictEqual(parseVersionRange("(1.0)"), undefined);
+  });
+});
+
+describe("resolveVersion", () => {
+  const versions = ["1.0.0", "1.5.0", "2.0.0", "2.1.0-beta", "2.1.0", "13.0.1", "13.0.3", "14.0.0-preview"];
+
+  it("picks the highest match of a floating version", () => {
+    assert.strictEqual(resolveVersion("13.*", versions), "13.0.3");
+    assert.strictEqual(resolveVersion("2.1.*", versions), "2.1.0");
+    assert.strictEqual(resolveVersion("14.*-*", versions), "14.0.0-preview");
+    assert.strictEqual(resolveVersion("3.*", versions), undefined);
+  });
+
+  it("picks the lowest version in a range", () => {
+    assert.strictEqual(resolveVersion("[1.1, 3.0)", versions), "1.5.0");
+    assert.strictEqual(resolveVersion("(1.5.0, )", versions), "2.0.0");
+    assert.strictEqual(resolveVersion("1.2", versions), "1.5.0");
+    assert.strictEqual(resolveVersion("[2.0]", versions), "2.0.0");
+    assert.strictEqual(resolveVersion("[3.0, 4.0)", versions), undefined);
+  });
+});
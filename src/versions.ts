@@ -0,0 +1,224 @@
+export type UpdateLevel = "major" | "minor" | "patch";
+
+/**
+ * A NuGet package version: SemVer 2.0.0 plus the legacy fourth "revision"
+ * number. Build metadata is kept for display but ignored when comparing.
+ */
+export interface NuGetVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  revision: number;
+  releaseLabels: string[];
+  metadata?: string;
+}
+
+const VERSION_PATTERN = /^\s*(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?\s*$/;
+
+/** Parses a version string, accepting leading zeros the way NuGet does. Returns undefined if invalid. */
+export function parseVersion(version: string): NuGetVersion | undefined {
+  const match = version.match(VERSION_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const [, major, minor, patch, revision, label, metadata] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor ?? 0),
+    patch: Number(patch ?? 0),
+    revision: Number(revision ?? 0),
+    releaseLabels: label ? label.split(".") : [],
+    metadata
+  };
+}
+
+function compareReleaseLabel(a: string, b: string): number {
+  const aIsNumeric = /^\d+$/.test(a);
+  const bIsNumeric = /^\d+$/.test(b);
+  if (aIsNumeric && bIsNumeric) {
+    return Number(a) - Number(b);
+  }
+  // Numeric identifiers always have lower precedence than alphanumeric ones
+  if (aIsNumeric !== bIsNumeric) {
+    return aIsNumeric ? -1 : 1;
+  }
+  const lowerA = a.toLowerCase();
+  const lowerB = b.toLowerCase();
+  return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+}
+
+export function compareParsedVersions(a: NuGetVersion, b: NuGetVersion): number {
+  const numberDifference =
+    a.major - b.major || a.minor - b.minor || a.patch - b.patch || a.revision - b.revision;
+  if (numberDifference !== 0) {
+    return numberDifference;
+  }
+
+  // A release version is newer than any prerelease of the same number
+  if (a.releaseLabels.length === 0 || b.releaseLabels.length === 0) {
+    return b.releaseLabels.length - a.releaseLabels.length;
+  }
+  for (let i = 0; i < Math.min(a.releaseLabels.length, b.releaseLabels.length); i++) {
+    const labelDifference = compareReleaseLabel(a.releaseLabels[i], b.releaseLabels[i]);
+    if (labelDifference !== 0) {
+      return labelDifference;
+    }
+  }
+  return a.releaseLabels.length - b.releaseLabels.length;
+}
+
+/**
+ * Orders versions by NuGet precedence. Invalid versions sort before valid
+ * ones and are compared as plain text among themselves.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (parsedA && parsedB) {
+    return compareParsedVersions(parsedA, parsedB);
+  }
+  if (parsedA || parsedB) {
+    return parsedA ? 1 : -1;
+  }
+  return a.localeCompare(b);
+}
+
+export function isPrerelease(version: string): boolean {
+  const parsed = parseVersion(version);
+  return parsed ? parsed.releaseLabels.length > 0 : version.split("+")[0].includes("-");
+}
+
+/** Floating versions (`13.*`) and ranges (`[1.0,2.0)`) are resolved at restore time. */
+export function isFloatingOrRange(version: string): boolean {
+  return /[*\[\](),]/.test(version);
+}
+
+/**
+ * Normalizes a version the way NuGet and the flat container do: no leading
+ * zeros, no metadata, the revision only when non-zero, lowercase labels.
+ */
+export function normalizeVersion(version: string): string {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return version.trim().toLowerCase();
+  }
+  let normalized = `${parsed.major}.${parsed.minor}.${parsed.patch}`;
+  if (parsed.revision !== 0) {
+    normalized += `.${parsed.revision}`;
+  }
+  if (parsed.releaseLabels.length > 0) {
+    normalized += `-${parsed.releaseLabels.join(".")}`;
+  }
+  return normalized.toLowerCase();
+}
+
+/** The newest stable version, or the newest prerelease when there is no stable one. */
+export function findLatestVersion(versions: string[]): string | undefined {
+  const stable = versions.filter(version => !isPrerelease(version));
+  return [...(stable.length > 0 ? stable : versions)].sort(compareVersions).pop();
+}
+
+/**
+ * Returns the newest version the `current` version could be updated to
+ * without crossing the given level, or undefined if it is up to date.
+ * `major` allows any newer version, `minor` keeps the major version, and
+ * `patch` keeps both major and minor (the same major.minor). Prereleases
+ * are only offered when `current` is itself a prerelease.
+ */
+export function findUpdate(current: string, versions: string[], level: UpdateLevel = "major"): string | undefined {
+  const parsedCurrent = parseVersion(current);
+  if (!parsedCurrent) {
+    return undefined;
+  }
+  const allowPrerelease = parsedCurrent.releaseLabels.length > 0;
+
+  let best: { version: string; parsed: NuGetVersion } | undefined;
+  for (const version of versions) {
+    const parsed = parseVersion(version);
+    if (!parsed || (!allowPrerelease && parsed.releaseLabels.length > 0)) {
+      continue;
+    }
+    if (compareParsedVersions(parsed, parsedCurrent) <= 0) {
+      continue;
+    }
+    if (level !== "major" && parsed.major !== parsedCurrent.major) {
+      continue;
+    }
+    if (level === "patch" && parsed.minor !== parsedCurrent.minor) {
+      continue;
+    }
+    if (!best || compareParsedVersions(parsed, best.parsed) > 0) {
+      best = { version, parsed };
+    }
+  }
+  return best?.version;
+}
+
+/** A NuGet version range such as `[1.0, 2.0)`; a bare version is a minimum. */
+export interface VersionRange {
+  minVersion?: string;
+  minInclusive: boolean;
+  maxVersion?: string;
+  maxInclusive: boolean;
+}
+
+export function parseVersionRange(range: string): VersionRange | undefined {
+  const text = range.trim();
+  if (parseVersion(text)) {
+    return { minVersion: text, minInclusive: true, maxInclusive: false };
+  }
+
+  const match = text.match(/^([[(])\s*([^,\])]*?)\s*(?:,\s*([^\])]*?)\s*)?([\])])$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, open, min, max, close] = match;
+  // `[1.0]` is an exact version
+  if (max === undefined) {
+    return open === "[" && close === "]" && parseVersion(min)
+      ? { minVersion: min, minInclusive: true, maxVersion: min, maxInclusive: true }
+      : undefined;
+  }
+  if ((min && !parseVersion(min)) || (max && !parseVersion(max))) {
+    return undefined;
+  }
+  return {
+    minVersion: min || undefined,
+    minInclusive: open === "[",
+    maxVersion: max || undefined,
+    maxInclusive: close === "]"
+  };
+}
+
+export function satisfiesRange(version: string, range: VersionRange): boolean {
+  if (range.minVersion) {
+    const difference = compareVersions(version, range.minVersion);
+    if (difference < 0 || (difference === 0 && !range.minInclusive)) {
+      return false;
+    }
+  }
+  if (range.maxVersion) {
+    const difference = compareVersions(version, range.maxVersion);
+    if (difference > 0 || (difference === 0 && !range.maxInclusive)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The version restore picks for a direct reference: the highest match of
+ * a floating version (`13.*`), otherwise the lowest version in the range.
+ */
+export function resolveVersion(requested: string, versions: string[]): string | undefined {
+  const sorted = [...versions].sort(compareVersions);
+  const floating = requested.match(/^([^*]*)\*/);
+  if (floating) {
+    const prefix = floating[1].toLowerCase();
+    const matches = sorted.filter(version => version.toLowerCase().startsWith(prefix) &&
+      (requested.includes("-") || !isPrerelease(version)));
+    return matches.pop();
+  }
+  const range = parseVersionRange(requested);
+  return range ? sorted.find(version => satisfiesRange(version, range)) : undefined;
+}
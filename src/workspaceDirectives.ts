@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import { Directive, parseDirectives } from "./directiveParser";
+
+export interface WorkspaceDirectiveFile {
+  uri: vscode.Uri;
+  directives: Directive[];
+}
+
+const EXCLUDED_FOLDERS = "**/{bin,obj,node_modules,.git}/**";
+// Upper bound on the C# files read when the workspace is first scanned
+const MAX_FILES = 5000;
+// Files read at once while scanning
+const READ_BATCH_SIZE = 20;
+// Coalesces the watcher events of e.g. a branch switch into one change
+const CHANGE_DELAY = 300;
+
+/**
+ * The directives of every `.cs` file in the workspace that has any. The
+ * workspace is scanned on first use, then kept current by a file watcher.
+ */
+export class WorkspaceDirectiveIndex implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  private files?: Promise<Map<string, WorkspaceDirectiveFile>>;
+  private changeTimer?: NodeJS.Timeout;
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*.cs");
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(uri => this.update(uri)),
+      watcher.onDidChange(uri => this.update(uri)),
+      watcher.onDidDelete(uri => this.remove(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.reset()),
+      { dispose: () => clearTimeout(this.changeTimer) }
+    );
+  }
+
+  /** Files with at least one directive, in path order. */
+  async getFiles(): Promise<WorkspaceDirectiveFile[]> {
+    this.files ??= this.scan();
+    const files = Array.from((await this.files).values());
+    return files.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+  }
+
+  /** Drops the index so that the next request scans the workspace again. */
+  reset() {
+    this.files = undefined;
+    this.fireChange();
+  }
+
+  private async scan(): Promise<Map<string, WorkspaceDirectiveFile>> {
+    const uris = await vscode.workspace.findFiles("**/*.cs", EXCLUDED_FOLDERS, MAX_FILES);
+    const files = new Map<string, WorkspaceDirectiveFile>();
+    for (let i = 0; i < uris.length; i += READ_BATCH_SIZE) {
+      const batch = await Promise.all(uris.slice(i, i + READ_BATCH_SIZE).map(uri => readDirectives(uri)));
+      for (const file of batch) {
+        if (file) {
+          files.set(file.uri.toString(), file);
+        }
+      }
+    }
+    return files;
+  }
+
+  private async update(uri: vscode.Uri) {
+    if (!this.files || /[\\/](bin|obj|node_modules|\.git)[\\/]/.test(uri.fsPath)) {
+      return;
+    }
+    const files = await this.files;
+    const file = await readDirectives(uri);
+    if (file) {
+      files.set(uri.toString(), file);
+    } else if (!files.delete(uri.toString())) {
+      // Neither had nor has directives
+      return;
+    }
+    this.fireChange();
+  }
+
+  private async remove(uri: vscode.Uri) {
+    if (this.files && (await this.files).delete(uri.toString())) {
+      this.fireChange();
+    }
+  }
+
+  private fireChange() {
+    clearTimeout(this.changeTimer);
+    this.changeTimer = setTimeout(() => this.changeEmitter.fire(), CHANGE_DELAY);
+  }
+
+  dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+async function readDirectives(uri: vscode.Uri): Promise<WorkspaceDirectiveFile | undefined> {
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    const { directives } = parseDirectives(Buffer.from(content).toString("utf8"));
+    return directives.length > 0 ? { uri, directives } : undefined;
+  } catch {
+    // Deleted or unreadable since it was listed
+    return undefined;
+  }
+}
@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import { compareVersions, normalizeVersion } from "./versions";
+import { WorkspaceDirectiveFile, WorkspaceDirectiveIndex } from "./workspaceDirectives";
+
+export const WORKSPACE_PACKAGES_VIEW_ID = "csharpPackageAutocomplete.workspacePackages";
+
+interface PackageUsage {
+  uri: vscode.Uri;
+  line: number;
+}
+
+interface PackageReport {
+  id: string;
+  /** Usages per version as written; "" for directives without a version. */
+  versions: Map<string, PackageUsage[]>;
+}
+
+type ReportNode =
+  | { kind: "package"; report: PackageReport }
+  | { kind: "version"; report: PackageReport; version: string }
+  | { kind: "usage"; usage: PackageUsage };
+
+/**
+ * Explorer view answering "which scripts use this package, at which
+ * versions": every package referenced in the workspace, its versions, and
+ * the files pinning each one.
+ */
+export class WorkspacePackageReportProvider implements vscode.TreeDataProvider<ReportNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private readonly view: vscode.TreeView<ReportNode>;
+  private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+  private reports: PackageReport[] = [];
+  private stale = true;
+
+  constructor(private readonly index: WorkspaceDirectiveIndex) {
+    this.view = vscode.window.createTreeView(WORKSPACE_PACKAGES_VIEW_ID, { treeDataProvider: this, showCollapseAll: true });
+    this.disposables.push(
+      this.view,
+      this.view.onDidChangeVisibility(() => this.stale && this.refresh()),
+      index.onDidChange(() => this.refresh())
+    );
+    this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.view.visible) {
+      this.stale = true;
+      return;
+    }
+    this.stale = false;
+    this.view.message = "Scanning workspace for directives...";
+    try {
+      this.reports = buildReports(await this.index.getFiles());
+      this.view.message = this.describe();
+    } catch (error) {
+      console.error("Error scanning workspace directives:", error);
+      this.view.message = "Could not scan the workspace. See the log for details.";
+    }
+    this.changeEmitter.fire();
+  }
+
+  /** Rescans every file, then shows the view. */
+  async show(): Promise<void> {
+    this.index.reset();
+    await vscode.commands.executeCommand(`${WORKSPACE_PACKAGES_VIEW_ID}.focus`);
+    await this.refresh();
+  }
+
+  private describe(): string | undefined {
+    if (this.reports.length === 0) {
+      return "No #:package directives in this workspace.";
+    }
+    const files = new Set(this.reports.flatMap(report =>
+      Array.from(report.versions.values()).flat().map(usage => usage.uri.toString())
+    )).size;
+    const inconsistent = this.reports.filter(report => report.versions.size > 1).length;
+    let message = `${this.reports.length} ${this.reports.length === 1 ? "package" : "packages"} in ${files} ${files === 1 ? "file" : "files"}`;
+    if (inconsistent > 0) {
+      message += ` • ${inconsistent} with several versions`;
+    }
+    return message;
+  }
+
+  getChildren(node?: ReportNode): ReportNode[] {
+    if (!node) {
+      return this.reports.map(report => ({ kind: "package", report }));
+    }
+    switch (node.kind) {
+      case "package":
+        return Array.from(node.report.versions.keys())
+          .sort((a, b) => compareVersions(b, a))
+          .map(version => ({ kind: "version", report: node.report, version }));
+      case "version":
+        return node.report.versions.get(node.version)!.map(usage => ({ kind: "usage", usage }));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: ReportNode): vscode.TreeItem {
+    switch (node.kind) {
+      case "package": {
+        const { id, versions } = node.report;
+        const files = Array.from(versions.values()).flat().length;
+        const item = new vscode.TreeItem(id, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = `${versions.size} ${versions.size === 1 ? "version" : "versions"} • ${files} ${files === 1 ? "file" : "files"}`;
+        item.iconPath = versions.size > 1
+          ? new vscode.ThemeIcon("warning", new vscode.ThemeColor("list.warningForeground"))
+          : new vscode.ThemeIcon("package");
+        if (versions.size > 1) {
+          item.tooltip = `${id} is referenced with ${versions.size} different versions.`;
+        }
+        return item;
+      }
+      case "version": {
+        const usages = node.report.versions.get(node.version)!;
+        const item = new vscode.TreeItem(node.version || "(no version)", vscode.TreeItemCollapsibleState.Expanded);
+        item.description = `${usages.length} ${usages.length === 1 ? "file" : "files"}`;
+        item.iconPath = new vscode.ThemeIcon("tag");
+        return item;
+      }
+      case "usage": {
+        const { uri, line } = node.usage;
+        const item = new vscode.TreeItem(uri, vscode.TreeItemCollapsibleState.None);
+        item.description = `${vscode.workspace.asRelativePath(uri)}:${line + 1}`;
+        item.command = {
+          title: "Go to Directive",
+          command: "vscode.open",
+          arguments: [uri, { selection: new vscode.Range(line, 0, line, 0) }]
+        };
+        return item;
+      }
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
+
+function buildReports(files: WorkspaceDirectiveFile[]): PackageReport[] {
+  const reports = new Map<string, PackageReport>();
+  for (const file of files) {
+    for (const directive of file.directives) {
+      if (directive.kind !== "package" || !directive.id || directive.errors.length > 0) {
+        continue;
+      }
+      const key = directive.id.text.toLowerCase();
+      let report = reports.get(key);
+      if (!report) {
+        report = { id: directive.id.text, versions: new Map() };
+        reports.set(key, report);
+      }
+      // 1.0 and 1.0.0 are the same version
+      const written = directive.version?.text ?? "";
+      const version = Array.from(report.versions.keys()).find(v => v && normalizeVersion(v) === normalizeVersion(written)) ?? written;
+      const usages = report.versions.get(version) ?? [];
+      usages.push({ uri: file.uri, line: directive.line });
+      report.versions.set(version, usages);
+    }
+  }
+  return Array.from(reports.values()).sort((a, b) => a.id.localeCompare(b.id, undefined, { sensitivity: "base" }));
+}
@@ -0,0 +1,110 @@
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'"
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(code.substring(2), 16));
+    }
+    if (code.startsWith("#")) {
+      return String.fromCodePoint(parseInt(code.substring(1), 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Minimal, forgiving XML reader for the small config and project files the
+ * extension needs to understand (nuget.config, *.csproj, *.props).
+ * Returns the document element, or undefined when nothing could be parsed.
+ */
+export function parseXml(text: string): XmlElement | undefined {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(text)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, rawAttributes, selfClosing, textContent] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closingName !== undefined) {
+      // Pop up to the matching element so a stray closing tag cannot corrupt the tree
+      const index = stack.map(e => e.name).lastIndexOf(closingName);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openingName !== undefined) {
+      const element: XmlElement = {
+        name: openingName,
+        attributes: parseAttributes(rawAttributes || ""),
+        children: [],
+        text: ""
+      };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (textContent !== undefined) {
+      current.text += decodeEntities(textContent);
+    }
+  }
+
+  return root.children[0];
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(raw)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Finds direct children by name. MSBuild and NuGet element names are
+ * case-insensitive, so the comparison is as well.
+ */
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  if (!element) {
+    return [];
+  }
+  const lowerName = name.toLowerCase();
+  return element.children.filter(child => child.name.toLowerCase() === lowerName);
+}
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/** Looks up an attribute ignoring case, as NuGet does for `key`/`value`. */
+export function attribute(element: XmlElement, name: string): string | undefined {
+  const lowerName = name.toLowerCase();
+  const key = Object.keys(element.attributes).find(k => k.toLowerCase() === lowerName);
+  return key !== undefined ? element.attributes[key] : undefined;
+}
+
+/** Escapes text for use in element content or a double-quoted attribute. */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}